@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { GeocodeResponse } from "@/types/weather";
+import { getWeatherProvider } from "@/lib/weatherProviders";
+import logger from "@/lib/utils/logger";
+
+const DEFAULT_COUNT = 5;
+const MAX_COUNT = 10;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("q")?.trim();
+
+  if (!query) {
+    return NextResponse.json(
+      { error: "Query parameter is required" },
+      { status: 400 },
+    );
+  }
+
+  const countParam = Number.parseInt(searchParams.get("count") ?? "", 10);
+  const count = Number.isFinite(countParam)
+    ? Math.min(Math.max(countParam, 1), MAX_COUNT)
+    : DEFAULT_COUNT;
+
+  const provider = getWeatherProvider();
+
+  try {
+    const results = await provider.searchPlaces(query, count);
+    const body: GeocodeResponse = { results };
+    return NextResponse.json(body);
+  } catch (error) {
+    logger.error(`${provider.name} geocoding error:`, error);
+    return NextResponse.json(
+      { error: "Failed to geocode location" },
+      { status: 502 },
+    );
+  }
+}
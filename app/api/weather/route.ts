@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import type {
   WeatherData,
-  GeocodingResponse,
-  OpenMeteoForecast,
+  LocationCandidate,
+  ProviderForecast,
 } from "@/types/weather";
 import { getWeatherDescription } from "@/lib/wmoCode";
 import { getBiome } from "@/lib/biomeDetector";
+import { getWeatherProvider } from "@/lib/weatherProviders";
 import logger from "@/lib/utils/logger";
 
 // Convert Celsius to Fahrenheit
@@ -32,6 +33,8 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const provider = getWeatherProvider();
+
   try {
     let latitude: number;
     let longitude: number;
@@ -55,25 +58,19 @@ export async function GET(request: NextRequest) {
       countryName = searchParams.get("country") ?? "";
     } else {
       // Step 1: Geocode the query to get coordinates
-      // Robustness: take the first part of a comma-separated query
-      const locationQuery = query!.split(",")[0];
-
-      const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
-        locationQuery,
-      )}&count=1&language=en&format=json`;
-
-      const geocodingResponse = await fetch(geocodingUrl);
-
-      if (!geocodingResponse.ok) {
+      // The best-ranked candidate, so "Portland, Maine" stays in Maine
+      let candidates: LocationCandidate[];
+      try {
+        candidates = await provider.searchPlaces(query!, 1);
+      } catch (geocodingError) {
+        logger.error(`${provider.name} geocoding error:`, geocodingError);
         return NextResponse.json(
           { error: "Failed to geocode location" },
-          { status: geocodingResponse.status },
+          { status: 502 },
         );
       }
 
-      const geocodingData: GeocodingResponse = await geocodingResponse.json();
-
-      if (!geocodingData.results || geocodingData.results.length === 0) {
+      if (candidates.length === 0) {
         return NextResponse.json(
           {
             error: "Location not found. City names work best.",
@@ -82,9 +79,9 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      const location = geocodingData.results[0];
-      latitude = location.latitude;
-      longitude = location.longitude;
+      const location = candidates[0];
+      latitude = location.lat;
+      longitude = location.lon;
       locationName = location.name;
       regionName = location.admin1 || "";
       countryName = location.country;
@@ -94,44 +91,39 @@ export async function GET(request: NextRequest) {
     const biome = getBiome(latitude, longitude);
 
     // Step 3: Fetch weather data for the coordinates
-    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto`;
-
-    const weatherResponse = await fetch(weatherUrl);
-
-    if (!weatherResponse.ok) {
+    let forecast: ProviderForecast;
+    try {
+      forecast = await provider.getForecast(latitude, longitude);
+    } catch (forecastError) {
+      logger.error(`${provider.name} forecast error:`, forecastError);
       return NextResponse.json(
         { error: "Failed to fetch weather data" },
-        { status: weatherResponse.status },
+        { status: 502 },
       );
     }
 
-    const weatherData: OpenMeteoForecast = await weatherResponse.json();
-
     // Step 4: Transform to our unified WeatherData format
     const transformedData: WeatherData = {
       location: {
         name: locationName,
         region: regionName,
         country: countryName,
-        localtime: weatherData.current.time,
+        localtime: forecast.localtime,
+        utc_offset_seconds: forecast.utc_offset_seconds,
       },
       current: {
-        temp_c: Math.round(weatherData.current.temperature_2m),
-        temp_f: Math.round(
-          celsiusToFahrenheit(weatherData.current.temperature_2m),
-        ),
+        temp_c: Math.round(forecast.temp_c),
+        temp_f: Math.round(celsiusToFahrenheit(forecast.temp_c)),
         condition: {
-          text: getWeatherDescription(weatherData.current.weather_code),
-          code: weatherData.current.weather_code,
+          text: getWeatherDescription(forecast.weather_code),
+          code: forecast.weather_code,
         },
-        wind_kph: Math.round(weatherData.current.wind_speed_10m),
-        wind_mph: Math.round(kmhToMph(weatherData.current.wind_speed_10m)),
-        wind_dir: weatherData.current.wind_direction_10m,
-        humidity: weatherData.current.relative_humidity_2m,
-        feelslike_c: Math.round(weatherData.current.apparent_temperature),
-        feelslike_f: Math.round(
-          celsiusToFahrenheit(weatherData.current.apparent_temperature),
-        ),
+        wind_kph: Math.round(forecast.wind_kph),
+        wind_mph: Math.round(kmhToMph(forecast.wind_kph)),
+        wind_dir: forecast.wind_dir,
+        humidity: forecast.humidity,
+        feelslike_c: Math.round(forecast.feelslike_c),
+        feelslike_f: Math.round(celsiusToFahrenheit(forecast.feelslike_c)),
       },
       biome: {
         type: biome,
@@ -140,11 +132,15 @@ export async function GET(request: NextRequest) {
           lon: longitude,
         },
       },
+      forecast: forecast.hourly?.map(({ time, weather_code }) => ({
+        time,
+        condition: { text: getWeatherDescription(weather_code), code: weather_code },
+      })),
     };
 
     return NextResponse.json(transformedData);
   } catch (error) {
-    logger.error("Open-Meteo API error:", error);
+    logger.error(`${provider.name} API error:`, error);
     return NextResponse.json(
       { error: "Failed to fetch weather data" },
       { status: 500 },
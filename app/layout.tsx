@@ -5,6 +5,7 @@ import { cookies } from "next/headers";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { AudioProvider } from "@/components/AudioProvider";
 import { ConsoleBanner } from "@/components/ConsoleBanner";
+import { ServiceWorkerRegistration } from "@/components/ServiceWorkerRegistration";
 // import ThemeToggle from "@/components/ThemeToggle";
 
 const THEME_STORAGE_KEY = "hearaway-theme";
@@ -158,6 +159,7 @@ export default async function RootLayout({
       </head>
       <body className={`${gambarino.variable} ${articulat.variable} antialiased`}>
         <ConsoleBanner />
+        <ServiceWorkerRegistration />
         <ThemeProvider initialTheme={initialTheme}>
           <AudioProvider>
             {/* <ThemeToggle /> */}
@@ -1,43 +1,81 @@
 "use client";
 
 import Image from "next/image";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { motion } from "framer-motion";
 import SearchBar from "@/components/SearchBar";
 import WeatherDisplay from "@/components/WeatherDisplay";
 import BackgroundManager from "@/components/BackgroundManager";
 import AudioLaunchOverlay from "@/components/AudioLaunchOverlay";
 import AudioControls from "@/components/AudioControls";
+import LayerMixer from "@/components/LayerMixer";
 import InsideModeToggle from "@/components/InsideModeToggle";
+import FavouritesTray from "@/components/FavouritesTray";
 import PrivacyControl from "@/components/PrivacyControl";
 import { useAudio } from "@/components/AudioProvider";
 import { useTheme } from "@/components/ThemeProvider";
-import { getWeather, getWeatherByCoordinates } from "@/lib/weather";
+import {
+  getWeather,
+  getWeatherByCoordinates,
+  type CoordinateRequest,
+} from "@/lib/weather";
 import logger from "@/lib/utils/logger";
-import type { WeatherData } from "@/types/weather";
+import type { LocationCandidate, WeatherData } from "@/types/weather";
 import type { BiomeType } from "@/lib/biomeDetector";
-import { getTimeOfDay, getBiomeImagePath } from "@/lib/biomeUtils";
+import { getTimeOfDayFromPhase, getBiomeImagePath } from "@/lib/biomeUtils";
+import { getWeatherDayPhase } from "@/lib/solar";
 import { blurIn, blurInSubtle } from "@/lib/animations";
 import { useBackgroundPreload } from "@/hooks/useBackgroundPreload";
 import { track } from "@/lib/utils/analytics";
+import { buildSoundscapeSearch, parseSoundscapeLink } from "@/lib/shareLink";
+import type { FavouritePlace } from "@/lib/favourites";
+
+const LAST_LOCATION_KEY = "hearaway_last_location";
+
+/**
+ * Read the last location listened to from localStorage.
+ *
+ * @returns Saved location, or null when there is none
+ */
+function loadLastLocation(): CoordinateRequest | null {
+  try {
+    const stored = localStorage.getItem(LAST_LOCATION_KEY);
+    const location = stored ? (JSON.parse(stored) as CoordinateRequest) : null;
+    return location &&
+      Number.isFinite(location.lat) &&
+      Number.isFinite(location.lon)
+      ? location
+      : null;
+  } catch {
+    return null; // Corrupt or unavailable storage behaves like no saved location
+  }
+}
 
 export default function Home() {
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [previousBiome, setPreviousBiome] = useState<BiomeType | null>(null);
-  const { updateSoundscape, isReady, hasInteracted } = useAudio();
+  const {
+    updateSoundscape,
+    isReady,
+    hasInteracted,
+    setInsideMode,
+    setInsideFilterFrequency,
+    restoreLayerMix,
+  } = useAudio();
   const { theme } = useTheme();
   const [isBrandReady, setIsBrandReady] = useState(false);
   const refreshIntervalRef = useRef<number | null>(null);
+  const hasRestoredRef = useRef(false);
   const { preloadBackground } = useBackgroundPreload();
 
-  // Calculate background image based on biome, time of day, and location coordinates
+  // Calculate background image based on biome, solar day phase, and location coordinates
   // Location coordinates ensure deterministic image selection - same location = same image
   const backgroundImage = weatherData
     ? getBiomeImagePath(
         weatherData.biome.type,
-        getTimeOfDay(weatherData.location.localtime),
+        getTimeOfDayFromPhase(getWeatherDayPhase(weatherData)),
         weatherData.biome.coordinates.lat,
         weatherData.biome.coordinates.lon,
       )
@@ -64,6 +102,56 @@ export default function Home() {
     }
   };
 
+  // Suggestions and "use my location" already have coordinates, so skip
+  // geocoding the text
+  const handleLocate = async (location: CoordinateRequest) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await getWeatherByCoordinates(location);
+      setWeatherData(data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch weather data",
+      );
+      setWeatherData(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectLocation = (candidate: LocationCandidate) =>
+    handleLocate({
+      lat: candidate.lat,
+      lon: candidate.lon,
+      name: candidate.name,
+      region: candidate.admin1 ?? "",
+      country: candidate.country,
+    });
+
+  // Switch to a saved place; the soundscape crossfades once its weather is in
+  const handleSelectFavourite = useCallback(
+    async (place: FavouritePlace) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = await getWeatherByCoordinates(place);
+        // The biome may have changed since the place was saved
+        if (place.mix) restoreLayerMix(data.biome.type, place.mix);
+        setWeatherData(data);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch weather data",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [restoreLayerMix],
+  );
+
   // Update soundscape when weather data changes and audio is ready
   useEffect(() => {
     if (weatherData && isReady) {
@@ -126,11 +214,90 @@ export default function Home() {
     setIsBrandReady(true);
   }, []);
 
+  // Keep the location in the URL (so a refresh lands on the same place) and
+  // remember it so it can be restored offline
+  useEffect(() => {
+    if (!weatherData) return;
+
+    const { lat, lon } = weatherData.biome.coordinates;
+    const { name, region, country } = weatherData.location;
+    window.history.replaceState(
+      null,
+      "",
+      `/?${buildSoundscapeSearch({ lat, lon, name, region, country })}`,
+    );
+    localStorage.setItem(
+      LAST_LOCATION_KEY,
+      JSON.stringify({ lat, lon, name, region, country }),
+    );
+  }, [weatherData]);
+
+  // On load, restore a linked soundscape, or the last location when offline.
+  // Audio starts from the launch overlay as usual and picks up this state.
+  // Runs once; later URL changes come from this page itself.
+  useEffect(() => {
+    if (hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+
+    const link = parseSoundscapeLink(
+      new URLSearchParams(window.location.search),
+    );
+
+    if (link) {
+      // For this visit only, like the mix; the recipient's saved inside
+      // mode stays as it is
+      if (link.inside !== undefined) {
+        setInsideMode(link.inside, { save: false });
+      }
+      if (link.filterFrequency !== undefined) {
+        setInsideFilterFrequency(link.filterFrequency, { save: false });
+      }
+
+      setIsLoading(true);
+      getWeatherByCoordinates(link)
+        .then((data) => {
+          // For this visit only; the recipient's own mix stays saved
+          if (link.mix) {
+            restoreLayerMix(data.biome.type, link.mix, { save: false });
+          }
+          setWeatherData(data);
+          // The page's own address (after a refresh) isn't a shared link
+          if (link.shared) {
+            track("shared_link_open", {
+              biome: data.biome.type,
+              location: data.location.name,
+            });
+          }
+        })
+        .catch((linkError) => {
+          setError(
+            linkError instanceof Error
+              ? linkError.message
+              : "Failed to fetch weather data",
+          );
+        })
+        .finally(() => setIsLoading(false));
+      return;
+    }
+
+    if (navigator.onLine) return;
+
+    const lastLocation = loadLastLocation();
+    if (!lastLocation) return;
+
+    getWeatherByCoordinates(lastLocation)
+      .then(setWeatherData)
+      .catch((restoreError) => {
+        logger.warn("No cached weather for the last location:", restoreError);
+      });
+  }, [setInsideMode, setInsideFilterFrequency, restoreLayerMix]);
+
   return (
     <>
       <BackgroundManager backgroundImage={backgroundImage} />
-      <AudioLaunchOverlay />
+      <AudioLaunchOverlay placeName={weatherData?.location.name} />
       <AudioControls />
+      <LayerMixer />
       <InsideModeToggle />
       <PrivacyControl />
 
@@ -174,7 +341,7 @@ export default function Home() {
 
           {/* Search Bar */}
           <motion.div
-            className="flex justify-center"
+            className="flex flex-col items-center gap-4"
             variants={blurIn}
             initial="hidden"
             animate={hasInteracted ? "visible" : "hidden"}
@@ -182,9 +349,16 @@ export default function Home() {
           >
             <SearchBar
               onSearch={handleSearch}
+              onSelectLocation={handleSelectLocation}
+              onLocate={handleLocate}
               isLoading={isLoading}
               hasResults={!!weatherData}
             />
+            <FavouritesTray
+              weatherData={weatherData}
+              onSelect={handleSelectFavourite}
+              disabled={isLoading}
+            />
           </motion.div>
 
           {/* Error State */}
@@ -3,6 +3,8 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { blurInFast } from "@/lib/animations";
 import { useAudio } from "./AudioProvider";
+import FocusSession from "./FocusSession";
+import SleepTimer from "./SleepTimer";
 import { track } from "@/lib/utils/analytics";
 
 /** Inline icons to avoid external deps */
@@ -25,6 +27,7 @@ function PauseIcon(props: React.SVGProps<SVGSVGElement>) {
  * AudioControls
  * Live stream, so the primary control acts as play/pause by toggling mute.
  * Circle CTA appears on hover or focus, swaps icon with blur.
+ * The timer and moon buttons beside it open focus sessions and the sleep timer.
  */
 export default function AudioControls() {
   const { isReady, isMuted, volume, setVolume, toggleMute, currentBiome } =
@@ -82,6 +85,11 @@ export default function AudioControls() {
             />
           </div>
 
+          <div className="flex items-center gap-2 mr-2">
+            <FocusSession />
+            <SleepTimer />
+          </div>
+
           <motion.button
             type="button"
             onClick={toggleMute}
@@ -10,8 +10,13 @@ import { track } from "@/lib/utils/analytics";
  * AudioLaunchOverlay - onboarding gate for audio playback.
  *
  * Appears after every reload until the user interacts, satisfying autoplay policies.
+ * When the page opened on a shared place, the start button names it.
  */
-export default function AudioLaunchOverlay() {
+export default function AudioLaunchOverlay({
+  placeName,
+}: {
+  placeName?: string;
+}) {
   const { initialize, isReady, isLoading, hasInteracted } = useAudio();
   const [error, setError] = useState<string | null>(null);
   const [isBlurring, setIsBlurring] = useState(false);
@@ -126,7 +131,13 @@ export default function AudioLaunchOverlay() {
                      font-medium text-lg
                      disabled:opacity-50 disabled:cursor-not-allowed
                      transition-colors"
-          aria-label={isLoading ? "Starting audio..." : "Start soundscape"}
+          aria-label={
+            isLoading
+              ? "Starting audio..."
+              : placeName
+                ? `Start soundscape of ${placeName}`
+                : "Start soundscape"
+          }
           variants={blurInFast}
           initial="hidden"
           animate="visible"
@@ -156,6 +167,8 @@ export default function AudioLaunchOverlay() {
               </svg>
               Starting audio...
             </span>
+          ) : placeName ? (
+            `Listen to ${placeName}`
           ) : (
             "Understood"
           )}
@@ -12,6 +12,17 @@ import { getAudioController } from "@/lib/audioController";
 import logger from "@/lib/utils/logger";
 import type { BiomeType } from "@/lib/biomeDetector";
 import type { WeatherData } from "@/types/weather";
+import type {
+  CategoryMixState,
+  FocusSessionOptions,
+  FocusSessionState,
+  LayerOverrides,
+  MixerLayer,
+  PreloadProgress,
+  SleepTimerOptions,
+  SleepTimerState,
+  SoundCategory,
+} from "@/types/audio";
 import { track } from "@/lib/utils/analytics";
 
 interface AudioContextType {
@@ -24,6 +35,11 @@ interface AudioContextType {
   hasInteracted: boolean;
   isInsideMode: boolean;
   insideFilterFrequency: number;
+  categoryMix: Record<SoundCategory, CategoryMixState>;
+  mixerLayers: MixerLayer[];
+  preloadProgress: PreloadProgress;
+  sleepTimer: SleepTimerState | null;
+  focusSession: FocusSessionState | null;
 
   // Methods
   initialize: () => Promise<void>;
@@ -31,7 +47,27 @@ interface AudioContextType {
   setVolume: (volume: number) => void;
   updateSoundscape: (weatherData: WeatherData) => void;
   toggleInsideMode: () => void;
-  setInsideFilterFrequency: (frequency: number) => void;
+  setInsideMode: (enabled: boolean, options?: { save?: boolean }) => void;
+  setInsideFilterFrequency: (
+    frequency: number,
+    options?: { save?: boolean },
+  ) => void;
+  setCategoryVolume: (category: SoundCategory, volume: number) => void;
+  muteCategory: (category: SoundCategory, muted: boolean) => void;
+  soloCategory: (category: SoundCategory | null) => void;
+  setLayerVolume: (soundId: string, volume: number) => void;
+  setLayerMuted: (soundId: string, muted: boolean) => void;
+  resetLayerMix: () => void;
+  getLayerMix: (biome: BiomeType) => LayerOverrides;
+  restoreLayerMix: (
+    biome: BiomeType,
+    overrides: LayerOverrides,
+    options?: { save?: boolean },
+  ) => void;
+  startSleepTimer: (options: SleepTimerOptions) => void;
+  cancelSleepTimer: () => void;
+  startFocusSession: (options: Partial<FocusSessionOptions>) => void;
+  stopFocusSession: () => void;
 }
 
 const AudioContext = createContext<AudioContextType | undefined>(undefined);
@@ -45,19 +81,35 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
   const [hasInteracted, setHasInteracted] = useState(false);
   const [isInsideMode, setInsideModeState] = useState(false);
   const [insideFilterFrequency, setInsideFilterFrequencyState] = useState(1500);
+  const [categoryMix, setCategoryMix] = useState<
+    Record<SoundCategory, CategoryMixState>
+  >(() => getAudioController().getCategoryStates());
+  const [mixerLayers, setMixerLayers] = useState<MixerLayer[]>([]);
+  const [preloadProgress, setPreloadProgress] = useState<PreloadProgress>({
+    loaded: 0,
+    total: 0,
+  });
+  const [sleepTimer, setSleepTimer] = useState<SleepTimerState | null>(null);
+  const [focusSession, setFocusSession] = useState<FocusSessionState | null>(
+    null,
+  );
 
   const controllerRef = useRef(getAudioController());
   const initializationPromiseRef = useRef<Promise<void> | null>(null);
+  const preloadRequestRef = useRef(0);
+  // Inside mode settings applied unsaved (from a shared link) before the
+  // saved preferences load; those must not replace them
+  const unsavedInsideRef = useRef({ mode: false, frequency: false });
 
   // Load inside mode preference from localStorage on mount
   useEffect(() => {
     const savedInsideMode = localStorage.getItem("hearaway_inside_mode");
     const savedFrequency = localStorage.getItem("hearaway_filter_frequency");
 
-    if (savedInsideMode !== null) {
+    if (savedInsideMode !== null && !unsavedInsideRef.current.mode) {
       setInsideModeState(JSON.parse(savedInsideMode));
     }
-    if (savedFrequency !== null) {
+    if (savedFrequency !== null && !unsavedInsideRef.current.frequency) {
       setInsideFilterFrequencyState(JSON.parse(savedFrequency));
     }
   }, []);
@@ -157,7 +209,22 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
 
       const controller = controllerRef.current;
       const previousBiome = currentBiome;
-      controller.updateSoundscape(weatherData);
+
+      // Only the latest update reports preload progress
+      const preloadRequest = ++preloadRequestRef.current;
+      const reportProgress = (progress: PreloadProgress) => {
+        if (preloadRequestRef.current === preloadRequest) {
+          setPreloadProgress(progress);
+        }
+      };
+
+      controller
+        .updateSoundscape(weatherData)
+        .then(() => {
+          setMixerLayers(controller.getMixerLayers());
+          return controller.preloadAhead(weatherData, reportProgress);
+        })
+        .catch((error) => logger.error("Failed to update soundscape:", error));
       setCurrentBiome(weatherData.biome.type);
 
       if (previousBiome !== weatherData.biome.type) {
@@ -187,16 +254,40 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     track("inside_mode_toggle", { enabled: newState, biome: currentBiome });
   }, [isReady, isInsideMode, currentBiome]);
 
+  /**
+   * Set inside mode explicitly (e.g., unsaved from a shared link)
+   */
+  const setInsideMode = useCallback(
+    (enabled: boolean, { save = true }: { save?: boolean } = {}) => {
+      setInsideModeState(enabled);
+      if (save) {
+        localStorage.setItem("hearaway_inside_mode", JSON.stringify(enabled));
+      } else {
+        unsavedInsideRef.current.mode = true;
+      }
+
+      if (isReady) {
+        const controller = controllerRef.current;
+        controller.setInsideMode(enabled);
+      }
+    },
+    [isReady],
+  );
+
   /**
    * Set inside filter frequency
    */
   const setInsideFilterFrequency = useCallback(
-    (frequency: number) => {
+    (frequency: number, { save = true }: { save?: boolean } = {}) => {
       setInsideFilterFrequencyState(frequency);
-      localStorage.setItem(
-        "hearaway_filter_frequency",
-        JSON.stringify(frequency),
-      );
+      if (save) {
+        localStorage.setItem(
+          "hearaway_filter_frequency",
+          JSON.stringify(frequency),
+        );
+      } else {
+        unsavedInsideRef.current.frequency = true;
+      }
 
       if (isReady) {
         const controller = controllerRef.current;
@@ -206,6 +297,192 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     [isReady],
   );
 
+  /**
+   * Set the volume of a category submix bus (0-1)
+   */
+  const setCategoryVolume = useCallback(
+    (category: SoundCategory, newVolume: number) => {
+      const controller = controllerRef.current;
+      controller.setCategoryVolume(category, newVolume);
+      setCategoryMix(controller.getCategoryStates());
+    },
+    [],
+  );
+
+  /**
+   * Mute or unmute a sound category
+   */
+  const muteCategory = useCallback(
+    (category: SoundCategory, muted: boolean) => {
+      const controller = controllerRef.current;
+      controller.muteCategory(category, muted);
+      setCategoryMix(controller.getCategoryStates());
+
+      track("category_mute_toggle", {
+        category,
+        muted,
+        biome: currentBiome,
+      });
+    },
+    [currentBiome],
+  );
+
+  /**
+   * Solo a sound category (null clears the solo)
+   */
+  const soloCategory = useCallback(
+    (category: SoundCategory | null) => {
+      const controller = controllerRef.current;
+      controller.soloCategory(category);
+      setCategoryMix(controller.getCategoryStates());
+    },
+    [],
+  );
+
+  /**
+   * Override the volume of a single soundscape layer (0-1)
+   */
+  const setLayerVolume = useCallback((soundId: string, newVolume: number) => {
+    const controller = controllerRef.current;
+    controller.setLayerVolume(soundId, newVolume);
+    setMixerLayers(controller.getMixerLayers());
+  }, []);
+
+  /**
+   * Mute or unmute a single soundscape layer
+   */
+  const setLayerMuted = useCallback(
+    (soundId: string, muted: boolean) => {
+      const controller = controllerRef.current;
+      controller.setLayerMuted(soundId, muted);
+      setMixerLayers(controller.getMixerLayers());
+
+      track("mixer_layer_mute_toggle", {
+        sound: soundId,
+        muted,
+        biome: currentBiome,
+      });
+    },
+    [currentBiome],
+  );
+
+  /**
+   * Clear all layer overrides for the current biome
+   */
+  const resetLayerMix = useCallback(() => {
+    const controller = controllerRef.current;
+    controller.resetLayerOverrides();
+    setMixerLayers(controller.getMixerLayers());
+
+    track("mixer_reset", { biome: currentBiome });
+  }, [currentBiome]);
+
+  /**
+   * Get the layer overrides saved for a biome
+   */
+  const getLayerMix = useCallback((biome: BiomeType) => {
+    return controllerRef.current.getLayerOverrides(biome);
+  }, []);
+
+  /**
+   * Replace the layer overrides of a biome (e.g., from a favourite, or
+   * unsaved from a shared link)
+   */
+  const restoreLayerMix = useCallback(
+    (
+      biome: BiomeType,
+      overrides: LayerOverrides,
+      options?: { save?: boolean },
+    ) => {
+      const controller = controllerRef.current;
+      controller.setLayerOverrides(biome, overrides, options);
+      setMixerLayers(controller.getMixerLayers());
+    },
+    [],
+  );
+
+  /**
+   * Start a sleep timer (fade out, stop, optionally wake)
+   */
+  const startSleepTimer = useCallback(
+    (options: SleepTimerOptions) => {
+      if (!isReady) return;
+
+      const controller = controllerRef.current;
+      const state = controller.startSleepTimer(options, (newState) => {
+        setSleepTimer(newState);
+        setMixerLayers(controller.getMixerLayers());
+      });
+      setSleepTimer(state);
+
+      track("sleep_timer_start", {
+        minutes: options.durationMinutes,
+        wake: Boolean(state?.wakeAt),
+        biome: currentBiome,
+      });
+    },
+    [isReady, currentBiome],
+  );
+
+  /**
+   * Cancel the sleep timer, resuming the soundscape if it stopped
+   */
+  const cancelSleepTimer = useCallback(() => {
+    const controller = controllerRef.current;
+    controller
+      .cancelSleepTimer()
+      .catch((error: unknown) =>
+        logger.error("Failed to cancel sleep timer:", error),
+      );
+
+    track("sleep_timer_cancel", { biome: currentBiome });
+  }, [currentBiome]);
+
+  /**
+   * Start a focus session (work/break cycles)
+   */
+  const startFocusSession = useCallback(
+    (options: Partial<FocusSessionOptions>) => {
+      if (!isReady) return;
+
+      const controller = controllerRef.current;
+      const biome = currentBiome;
+      const session = controller.startFocusSession(
+        options,
+        (state, completed) => {
+          setFocusSession(state);
+          setMixerLayers(controller.getMixerLayers());
+
+          if (completed) {
+            track("focus_session_complete", {
+              cycles: session.cycles,
+              work_minutes: session.workMinutes,
+              break_minutes: session.breakMinutes,
+              break_style: session.breakStyle,
+              biome,
+            });
+          }
+        },
+      );
+      setFocusSession(session);
+    },
+    [isReady, currentBiome],
+  );
+
+  /**
+   * Stop the focus session early
+   */
+  const stopFocusSession = useCallback(() => {
+    const controller = controllerRef.current;
+    setFocusSession(null);
+    controller
+      .stopFocusSession()
+      .then(() => setMixerLayers(controller.getMixerLayers()))
+      .catch((error: unknown) =>
+        logger.error("Failed to stop focus session:", error),
+      );
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     const controller = controllerRef.current;
@@ -226,12 +503,30 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     hasInteracted,
     isInsideMode,
     insideFilterFrequency,
+    categoryMix,
+    mixerLayers,
+    preloadProgress,
+    sleepTimer,
+    focusSession,
     initialize,
     toggleMute,
     setVolume,
     updateSoundscape,
     toggleInsideMode,
+    setInsideMode,
     setInsideFilterFrequency,
+    setCategoryVolume,
+    muteCategory,
+    soloCategory,
+    setLayerVolume,
+    setLayerMuted,
+    resetLayerMix,
+    getLayerMix,
+    restoreLayerMix,
+    startSleepTimer,
+    cancelSleepTimer,
+    startFocusSession,
+    stopFocusSession,
   };
 
   return (
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Star, X } from "@phosphor-icons/react";
+import { useAudio } from "./AudioProvider";
+import { useFavourites } from "@/hooks/useFavourites";
+import { blurInFast } from "@/lib/animations";
+import { getFavouriteId, type FavouritePlace } from "@/lib/favourites";
+import { track } from "@/lib/utils/analytics";
+import type { WeatherData } from "@/types/weather";
+
+interface FavouritesTrayProps {
+  /** Place currently playing */
+  weatherData: WeatherData | null;
+
+  /** Switch to a saved place */
+  onSelect: (place: FavouritePlace) => void;
+
+  disabled?: boolean;
+}
+
+/**
+ * Whether a key press comes from a text field and shouldn't trigger shortcuts.
+ */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * FavouritesTray
+ *
+ * Saved places under the search bar. A star saves the current place with its
+ * layer mix; each chip (or its number key, 1–9) switches to that place.
+ */
+export default function FavouritesTray({
+  weatherData,
+  onSelect,
+  disabled = false,
+}: FavouritesTrayProps) {
+  const { getLayerMix } = useAudio();
+  const { favourites, isFull, isFavourite, addFavourite, removeFavourite } =
+    useFavourites();
+
+  const currentId = weatherData
+    ? getFavouriteId(
+        weatherData.biome.coordinates.lat,
+        weatherData.biome.coordinates.lon,
+      )
+    : null;
+  const isSaved = weatherData ? isFavourite(weatherData) : false;
+
+  // Number keys switch places
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (disabled || event.repeat) return;
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const index = Number(event.key) - 1;
+      if (!Number.isInteger(index) || index < 0) return;
+
+      const place = favourites[index];
+      if (!place || place.id === currentId) return;
+
+      event.preventDefault();
+      track("favourite_select", { method: "shortcut", biome: place.biome });
+      onSelect(place);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [favourites, currentId, disabled, onSelect]);
+
+  const toggleCurrent = () => {
+    if (!weatherData || !currentId) return;
+
+    if (isSaved) {
+      removeFavourite(currentId);
+      track("favourite_remove", { biome: weatherData.biome.type });
+    } else {
+      addFavourite(weatherData, getLayerMix(weatherData.biome.type));
+      track("favourite_add", { biome: weatherData.biome.type });
+    }
+  };
+
+  if (!weatherData && favourites.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xl flex flex-wrap items-center gap-2">
+      {weatherData && (
+        <button
+          type="button"
+          onClick={toggleCurrent}
+          disabled={!isSaved && isFull}
+          aria-pressed={isSaved}
+          title={
+            isSaved
+              ? "Remove from saved places"
+              : isFull
+                ? "Saved places are full"
+                : "Save this place"
+          }
+          className="size-8 grid place-items-center rounded-full text-accent-primary dark:text-dark-accent-primary hover:bg-accent-secondary/20 dark:hover:bg-dark-accent-secondary/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Star className="size-4" weight={isSaved ? "fill" : "bold"} />
+        </button>
+      )}
+
+      <AnimatePresence initial={false}>
+        {favourites.map((place, index) => {
+          const isCurrent = place.id === currentId;
+
+          return (
+            <motion.div
+              key={place.id}
+              layout
+              variants={blurInFast}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+              className={[
+                "group flex items-center rounded-full text-sm border transition-colors",
+                isCurrent
+                  ? "border-accent-primary dark:border-dark-accent-primary bg-accent-primary/10 dark:bg-dark-accent-primary/10"
+                  : "border-accent-secondary/30 dark:border-dark-accent-secondary/30 bg-surface/80 dark:bg-dark-surface/80 hover:border-accent-primary/60",
+              ].join(" ")}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  if (isCurrent) return;
+                  track("favourite_select", {
+                    method: "click",
+                    biome: place.biome,
+                  });
+                  onSelect(place);
+                }}
+                disabled={disabled}
+                aria-current={isCurrent ? "true" : undefined}
+                aria-keyshortcuts={String(index + 1)}
+                title={[place.name, place.region, place.country]
+                  .filter(Boolean)
+                  .join(", ")}
+                className="flex items-center gap-2 pl-1.5 pr-2 py-1 text-text-primary dark:text-dark-text-primary disabled:cursor-wait"
+              >
+                <kbd className="size-5 grid place-items-center rounded-full text-[10px] font-semibold bg-accent-secondary/30 dark:bg-dark-accent-secondary/30 text-text-secondary dark:text-dark-text-secondary">
+                  {index + 1}
+                </kbd>
+                <span className="max-w-[10rem] truncate">{place.name}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  removeFavourite(place.id);
+                  track("favourite_remove", { biome: place.biome });
+                }}
+                aria-label={`Remove ${place.name}`}
+                title="Remove"
+                className="pr-2 text-text-secondary/60 dark:text-dark-text-secondary/60 hover:text-text-primary dark:hover:text-dark-text-primary opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >
+                <X className="size-3" weight="bold" />
+              </button>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
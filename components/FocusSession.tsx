@@ -0,0 +1,204 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useEffect, useState } from "react";
+import { Timer } from "@phosphor-icons/react";
+import { useAudio } from "./AudioProvider";
+import { FloatingCallout } from "./FloatingCallout";
+import { DEFAULT_FOCUS_SESSION } from "@/lib/focusSession";
+import type { FocusBreakStyle } from "@/types/audio";
+
+const BREAK_STYLE_LABELS: Record<FocusBreakStyle, string> = {
+  biome: "Somewhere else",
+  quiet: "No accents",
+};
+
+const inputClassName =
+  "w-full rounded-lg px-3 py-1.5 text-sm bg-accent-secondary/10 dark:bg-dark-accent-secondary/10 border border-accent-secondary/30 dark:border-dark-accent-secondary/30 text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50";
+
+const actionClassName =
+  "w-full px-3 py-1.5 rounded-full text-sm font-semibold bg-accent-primary dark:bg-dark-accent-primary text-white hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed transition-opacity";
+
+const toggleClassName = (active: boolean) =>
+  [
+    "flex-1 px-2 py-1 rounded-full text-xs font-medium transition-colors",
+    active
+      ? "bg-accent-primary dark:bg-dark-accent-primary text-white"
+      : "bg-accent-secondary/20 dark:bg-dark-accent-secondary/20 text-text-secondary dark:text-dark-text-secondary hover:bg-accent-secondary/40",
+  ].join(" ");
+
+/**
+ * Parse a whole number of minutes or cycles within a range.
+ */
+function parseCount(value: string, max: number): number | null {
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 1 && count <= max ? count : null;
+}
+
+/**
+ * FocusSession
+ *
+ * Pomodoro-style work/break cycles. Work plays the location's soundscape,
+ * breaks move somewhere calmer or drop the accents, and a bell marks each
+ * change.
+ */
+export default function FocusSession() {
+  const { focusSession, startFocusSession, stopFocusSession } = useAudio();
+  const [isOpen, setIsOpen] = useState(false);
+  const [workMinutes, setWorkMinutes] = useState(
+    String(DEFAULT_FOCUS_SESSION.workMinutes),
+  );
+  const [breakMinutes, setBreakMinutes] = useState(
+    String(DEFAULT_FOCUS_SESSION.breakMinutes),
+  );
+  const [cycles, setCycles] = useState(String(DEFAULT_FOCUS_SESSION.cycles));
+  const [breakStyle, setBreakStyle] = useState<FocusBreakStyle>(
+    DEFAULT_FOCUS_SESSION.breakStyle,
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the remaining time fresh while a session runs
+  useEffect(() => {
+    if (!focusSession) return;
+
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => setNow(Date.now()), 15000);
+    return () => window.clearInterval(intervalId);
+  }, [focusSession]);
+
+  const work = parseCount(workMinutes, 180);
+  const rest = parseCount(breakMinutes, 60);
+  const cycleCount = parseCount(cycles, 12);
+  const isValid = work !== null && rest !== null && cycleCount !== null;
+
+  const renderStatus = () => {
+    if (!focusSession) return null;
+
+    const minutesLeft = Math.max(
+      1,
+      Math.ceil((focusSession.phaseEndsAt - now) / 60000),
+    );
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-text-primary dark:text-dark-text-primary">
+          {focusSession.phase === "work"
+            ? `Focus ${focusSession.cycle} of ${focusSession.cycles}`
+            : "Break"}
+          {`, ${minutesLeft} min left`}
+        </p>
+        <button
+          type="button"
+          onClick={() => {
+            stopFocusSession();
+            setIsOpen(false);
+          }}
+          className={actionClassName}
+        >
+          End session
+        </button>
+      </div>
+    );
+  };
+
+  const renderSetup = () => (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        startFocusSession({
+          workMinutes: work,
+          breakMinutes: rest,
+          cycles: cycleCount,
+          breakStyle,
+        });
+        setIsOpen(false);
+      }}
+    >
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: "Focus", value: workMinutes, onChange: setWorkMinutes },
+          { label: "Break", value: breakMinutes, onChange: setBreakMinutes },
+          { label: "Rounds", value: cycles, onChange: setCycles },
+        ].map(({ label, value, onChange }) => (
+          <label key={label} className="block space-y-1">
+            <span className="text-xs text-text-secondary dark:text-dark-text-secondary">
+              {label}
+            </span>
+            <input
+              type="number"
+              min={1}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-text-secondary dark:text-dark-text-secondary">
+          Breaks sound
+        </span>
+        <div className="flex gap-2">
+          {(Object.keys(BREAK_STYLE_LABELS) as FocusBreakStyle[]).map(
+            (style) => (
+              <button
+                key={style}
+                type="button"
+                onClick={() => setBreakStyle(style)}
+                aria-pressed={breakStyle === style}
+                className={toggleClassName(breakStyle === style)}
+              >
+                {BREAK_STYLE_LABELS[style]}
+              </button>
+            ),
+          )}
+        </div>
+      </div>
+
+      <button type="submit" disabled={!isValid} className={actionClassName}>
+        Start
+      </button>
+    </form>
+  );
+
+  const label = focusSession ? "Focus session (running)" : "Focus session";
+
+  return (
+    <FloatingCallout
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      reference={
+        <motion.button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-label={label}
+          aria-expanded={isOpen}
+          title={label}
+          className={[
+            "size-10 grid place-items-center rounded-full shadow-sm focus:outline-none focus:ring-2 focus:ring-accent-primary/50 transition-colors",
+            focusSession
+              ? "bg-accent-primary dark:bg-dark-accent-primary text-white"
+              : "bg-accent-secondary/40 dark:bg-dark-accent-secondary/40 hover:bg-accent-primary dark:hover:bg-dark-accent-primary text-text-primary dark:text-dark-text-primary",
+          ].join(" ")}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <Timer className="size-4" weight={focusSession ? "fill" : "bold"} />
+        </motion.button>
+      }
+      placement="top"
+      offset={16}
+    >
+      <div className="w-64 space-y-3 leading-relaxed">
+        <p className="text-base font-semibold tracking-tight text-text-primary dark:text-dark-text-primary">
+          Focus session
+        </p>
+        {focusSession ? renderStatus() : renderSetup()}
+      </div>
+    </FloatingCallout>
+  );
+}
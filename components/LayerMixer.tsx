@@ -0,0 +1,232 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useState } from "react";
+import {
+  ArrowCounterClockwise,
+  SlidersHorizontal,
+  SpeakerSimpleHigh,
+  SpeakerSimpleX,
+} from "@phosphor-icons/react";
+import { useAudio } from "./AudioProvider";
+import { FloatingCallout } from "./FloatingCallout";
+import { blurIn } from "@/lib/animations";
+import { formatSoundName, SOUND_CATEGORIES } from "@/lib/audioUtils";
+import { track } from "@/lib/utils/analytics";
+import type { MixerLayer, SoundCategory } from "@/types/audio";
+
+const CATEGORY_LABELS: Record<SoundCategory, string> = {
+  base: "Base",
+  weather: "Weather",
+  accent: "Accents",
+};
+
+const sliderClassName = [
+  "w-full h-2 rounded-full appearance-none cursor-pointer",
+  "bg-accent-secondary/20 dark:bg-dark-accent-secondary/20",
+  "disabled:opacity-50 disabled:cursor-not-allowed",
+  // WebKit thumb
+  "[&::-webkit-slider-thumb]:appearance-none",
+  "[&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5",
+  "[&::-webkit-slider-thumb]:rounded-full",
+  "[&::-webkit-slider-thumb]:bg-accent-primary",
+  "dark:[&::-webkit-slider-thumb]:bg-dark-accent-primary",
+  "[&::-webkit-slider-thumb]:cursor-pointer",
+  "[&::-webkit-slider-thumb]:transition-transform",
+  "[&::-webkit-slider-thumb]:hover:scale-110",
+  // Firefox thumb
+  "[&::-moz-range-thumb]:w-3.5 [&::-moz-range-thumb]:h-3.5",
+  "[&::-moz-range-thumb]:rounded-full",
+  "[&::-moz-range-thumb]:bg-accent-primary",
+  "dark:[&::-moz-range-thumb]:bg-dark-accent-primary",
+  "[&::-moz-range-thumb]:border-0",
+  "[&::-moz-range-thumb]:cursor-pointer",
+  "[&::-moz-range-thumb]:transition-transform",
+  "[&::-moz-range-thumb]:hover:scale-110",
+].join(" ");
+
+const toggleClassName = (active: boolean) =>
+  [
+    "px-1.5 py-0.5 rounded text-[10px] font-semibold tracking-wide transition-colors",
+    active
+      ? "bg-accent-primary dark:bg-dark-accent-primary text-white"
+      : "bg-accent-secondary/20 dark:bg-dark-accent-secondary/20 text-text-secondary dark:text-dark-text-secondary hover:bg-accent-secondary/40",
+  ].join(" ");
+
+/**
+ * LayerMixer
+ *
+ * Real-time mixer listing every layer of the current soundscape, one-shot
+ * accents included. Each layer has its own fader and mute toggle; category headings expose
+ * mute/solo for the submix buses. Layer overrides persist per biome.
+ */
+export default function LayerMixer() {
+  const {
+    isReady,
+    currentBiome,
+    hasInteracted,
+    mixerLayers,
+    categoryMix,
+    setLayerVolume,
+    setLayerMuted,
+    resetLayerMix,
+    muteCategory,
+    soloCategory,
+  } = useAudio();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isReady || !currentBiome) return null;
+
+  const hasOverrides = mixerLayers.some((layer) => layer.overridden);
+
+  const renderLayer = (layer: MixerLayer) => {
+    const label = formatSoundName(layer.soundId);
+
+    return (
+      <li key={layer.soundId} className="space-y-1">
+        <p
+          className={[
+            "text-sm truncate",
+            layer.muted
+              ? "text-text-secondary/60 dark:text-dark-text-secondary/60"
+              : "text-text-primary dark:text-dark-text-primary",
+          ].join(" ")}
+          title={label}
+        >
+          {label}
+        </p>
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(layer.volume * 100)}
+            onChange={(e) =>
+              setLayerVolume(layer.soundId, Number(e.target.value) / 100)
+            }
+            onPointerUp={(e) => {
+              track("mixer_layer_volume_change", {
+                sound: layer.soundId,
+                volume: Number((e.target as HTMLInputElement).value),
+                biome: currentBiome,
+              });
+            }}
+            disabled={layer.muted}
+            aria-label={`${label} volume`}
+            className={sliderClassName}
+          />
+          <button
+            type="button"
+            onClick={() => setLayerMuted(layer.soundId, !layer.muted)}
+            aria-label={layer.muted ? `Unmute ${label}` : `Mute ${label}`}
+            aria-pressed={layer.muted}
+            title={layer.muted ? "Unmute" : "Mute"}
+            className="shrink-0 size-7 grid place-items-center rounded-full text-text-secondary dark:text-dark-text-secondary hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            {layer.muted ? (
+              <SpeakerSimpleX className="size-4" weight="fill" />
+            ) : (
+              <SpeakerSimpleHigh className="size-4" weight="fill" />
+            )}
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <motion.div
+      className="fixed bottom-6 left-6 z-40"
+      variants={blurIn}
+      initial="hidden"
+      animate={hasInteracted ? "visible" : "hidden"}
+    >
+      <FloatingCallout
+        open={isOpen}
+        onOpenChange={setIsOpen}
+        reference={
+          <motion.button
+            type="button"
+            onClick={() => {
+              if (!isOpen) track("mixer_open", { biome: currentBiome });
+              setIsOpen(!isOpen);
+            }}
+            aria-label="Mixer"
+            aria-expanded={isOpen}
+            title="Mixer"
+            className="size-9 grid place-items-center rounded-full bg-accent-secondary/80 dark:bg-dark-accent-secondary/80 hover:bg-accent-primary dark:hover:bg-dark-accent-primary text-text-primary dark:text-dark-text-primary shadow-sm focus:outline-none focus:ring-2 focus:ring-accent-primary/50 transition-colors backdrop-blur-sm"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <SlidersHorizontal className="size-5" weight="bold" />
+          </motion.button>
+        }
+        placement="top-start"
+        offset={12}
+      >
+        <div className="space-y-4 leading-relaxed">
+          <div className="flex items-center justify-between">
+            <p className="text-base font-semibold tracking-tight text-text-primary dark:text-dark-text-primary">
+              Mixer
+            </p>
+            <button
+              type="button"
+              onClick={resetLayerMix}
+              disabled={!hasOverrides}
+              className="flex items-center gap-1 text-xs font-semibold text-accent-primary dark:text-dark-accent-primary hover:underline disabled:opacity-40 disabled:no-underline disabled:cursor-not-allowed"
+            >
+              <ArrowCounterClockwise className="size-3.5" weight="bold" />
+              Reset
+            </button>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto pr-1 space-y-4">
+            {SOUND_CATEGORIES.map((category) => {
+              const layers = mixerLayers.filter(
+                (layer) => layer.category === category,
+              );
+              if (layers.length === 0) return null;
+
+              const mix = categoryMix[category];
+
+              return (
+                <section key={category} className="space-y-2">
+                  <div className="flex items-center justify-between pt-2 border-t border-accent-secondary/20 dark:border-dark-accent-secondary/20">
+                    <span className="text-xs font-medium uppercase tracking-wider text-text-secondary dark:text-dark-text-secondary">
+                      {CATEGORY_LABELS[category]}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => muteCategory(category, !mix.muted)}
+                        aria-pressed={mix.muted}
+                        aria-label={`Mute ${CATEGORY_LABELS[category]}`}
+                        title="Mute group"
+                        className={toggleClassName(mix.muted)}
+                      >
+                        M
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          soloCategory(mix.soloed ? null : category)
+                        }
+                        aria-pressed={mix.soloed}
+                        aria-label={`Solo ${CATEGORY_LABELS[category]}`}
+                        title="Solo group"
+                        className={toggleClassName(mix.soloed)}
+                      >
+                        S
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="space-y-2">{layers.map(renderLayer)}</ul>
+                </section>
+              );
+            })}
+          </div>
+        </div>
+      </FloatingCallout>
+    </motion.div>
+  );
+}
@@ -1,12 +1,36 @@
 "use client";
 
-import { useEffect, useRef, useState, type MouseEvent } from "react";
+import {
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type MouseEvent,
+} from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { blurInFast, blurInOutQuick } from "@/lib/animations";
 import { ArrowRight, Sparkle, X, MapPin, Warning } from "@phosphor-icons/react";
 import { getRandomLocation } from "@/lib/randomLocations";
+import { searchLocations, type CoordinateRequest } from "@/lib/weather";
+import { getUserLocation } from "@/lib/geolocation";
 import logger from "@/lib/utils/logger";
 import { track } from "@/lib/utils/analytics";
+import type { LocationCandidate } from "@/types/weather";
+
+/** Wait after the last keystroke before fetching suggestions (ms) */
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+/** Shortest query that gets suggestions */
+const MIN_SUGGESTION_LENGTH = 2;
+
+/**
+ * Full label of a candidate (e.g., "Portland, Maine, United States").
+ */
+function formatCandidate(candidate: LocationCandidate): string {
+  return [candidate.name, candidate.admin1, candidate.country]
+    .filter(Boolean)
+    .join(", ");
+}
 
 const inputVariants = {
   resting: {
@@ -21,6 +45,8 @@ const inputVariants = {
 
 interface SearchBarProps {
   onSearch: (query: string) => Promise<void>;
+  onSelectLocation?: (candidate: LocationCandidate) => Promise<void>;
+  onLocate?: (location: CoordinateRequest) => Promise<void>;
   onRandom?: (location: string) => void;
   isLoading?: boolean;
   hasResults?: boolean;
@@ -28,6 +54,8 @@ interface SearchBarProps {
 
 export default function SearchBar({
   onSearch,
+  onSelectLocation,
+  onLocate,
   onRandom,
   isLoading = false,
   hasResults = false,
@@ -39,6 +67,9 @@ export default function SearchBar({
   const [locationStatus, setLocationStatus] = useState<
     "idle" | "loading" | "error"
   >("idle");
+  const [suggestions, setSuggestions] = useState<LocationCandidate[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const randomTimeoutsRef = useRef<number[]>([]);
 
@@ -68,10 +99,31 @@ export default function SearchBar({
     return false;
   };
 
+  const closeSuggestions = () => {
+    setIsSuggestionsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const selectSuggestion = (candidate: LocationCandidate) => {
+    const label = formatCandidate(candidate);
+    setQuery(label);
+    setIsDirty(false);
+    setError("");
+    closeSuggestions();
+
+    track("search_location_submit", { query: label, method: "suggestion" });
+    if (onSelectLocation) {
+      onSelectLocation(candidate);
+    } else {
+      onSearch(label);
+    }
+  };
+
   const submitGo = () => {
     if (isRandomizing) return;
     const q = trimmedQuery;
     if (!q) return; // guard
+    closeSuggestions();
     if (validateInput(q)) {
       track("search_location_submit", { query: q, method: "manual" });
       onSearch(q);
@@ -140,29 +192,26 @@ export default function SearchBar({
 
     try {
       logger.debug("→ Finding location...");
-      const response = await fetch("https://ipwho.is/");
-      const data = await response.json();
+      const { method, ...location } = await getUserLocation();
 
-      if (!data.success) {
-        throw new Error(data.message || "IP geolocation failed");
-      }
-
-      logger.debug("IP geolocation data:", data);
+      logger.debug("✓ Location found:", {
+        method,
+        coords: { lat: location.lat, lon: location.lon },
+        name: location.name,
+      });
 
-      if (data.city) {
-        const fullLocation = `${data.city}, ${data.region}`;
-        logger.debug("✓ Location found:", fullLocation, {
-          coords: { lat: data.latitude, lon: data.longitude },
-          country: data.country,
-          timezone: data.timezone,
-        });
+      track("search_use_gps", {
+        method,
+        location: [location.name, location.region].filter(Boolean).join(", "),
+      });
 
-        track("search_use_gps", { method: "ip", location: fullLocation });
-        await onSearch(data.city);
-        setLocationStatus("idle");
-      } else {
-        throw new Error("No city found in response");
+      // Search by coordinates, so the biome is where the user actually is
+      if (onLocate) {
+        await onLocate(location);
+      } else if (location.name) {
+        await onSearch(location.name);
       }
+      setLocationStatus("idle");
     } catch (err) {
       logger.error("✗ Find location failed:", err);
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
@@ -194,6 +243,27 @@ export default function SearchBar({
     }
   };
 
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const hasSuggestions = isSuggestionsOpen && suggestions.length > 0;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      if (!hasSuggestions) return;
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      // Cycle through the suggestions and back to the typed text (-1)
+      const positions = suggestions.length + 1;
+      setActiveIndex(
+        (index) => ((index + 1 + step + positions) % positions) - 1,
+      );
+    } else if (event.key === "Enter" && hasSuggestions && activeIndex >= 0) {
+      event.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (event.key === "Escape" && isSuggestionsOpen) {
+      event.preventDefault();
+      closeSuggestions();
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (isBusy || iconType === "clear") return;
@@ -202,6 +272,34 @@ export default function SearchBar({
     else submitRandom();
   };
 
+  // Fetch suggestions for what the user is typing, once they pause
+  useEffect(() => {
+    if (!isDirty || isRandomizing || trimmedQuery.length < MIN_SUGGESTION_LENGTH) {
+      setSuggestions([]);
+      setIsSuggestionsOpen(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const results = await searchLocations(trimmedQuery, controller.signal);
+        setSuggestions(results);
+        setActiveIndex(-1);
+        setIsSuggestionsOpen(results.length > 0);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logger.warn("Failed to fetch location suggestions:", err);
+        setSuggestions([]);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [trimmedQuery, isDirty, isRandomizing]);
+
   useEffect(() => {
     return () => {
       randomTimeoutsRef.current.forEach((id) => clearTimeout(id));
@@ -240,6 +338,18 @@ export default function SearchBar({
               setIsDirty(true);
               if (error) setError("");
             }}
+            onKeyDown={handleInputKeyDown}
+            onFocus={() => {
+              if (isDirty && suggestions.length > 0) setIsSuggestionsOpen(true);
+            }}
+            onBlur={closeSuggestions}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={isSuggestionsOpen}
+            aria-controls="search-suggestions"
+            aria-activedescendant={
+              activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined
+            }
             placeholder="Where do you want to hear?"
             disabled={isBusy}
             variants={inputVariants}
@@ -371,6 +481,52 @@ export default function SearchBar({
         </motion.button>
       </div>
 
+      {/* Suggestions */}
+      <div className="relative">
+        <AnimatePresence>
+          {isSuggestionsOpen && suggestions.length > 0 && (
+            <motion.ul
+              id="search-suggestions"
+              role="listbox"
+              aria-label="Suggested locations"
+              variants={blurInFast}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+              className="absolute left-0 right-0 top-2 z-30 py-2 rounded-2xl bg-surface dark:bg-dark-surface border border-accent-secondary/30 dark:border-dark-accent-secondary/30 shadow-lg overflow-hidden"
+            >
+              {suggestions.map((candidate, index) => (
+                <li
+                  key={candidate.id}
+                  id={`search-suggestion-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input so it doesn't blur before the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => selectSuggestion(candidate)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={[
+                    "px-5 py-2 cursor-pointer text-left",
+                    index === activeIndex
+                      ? "bg-accent-secondary/30 dark:bg-dark-accent-secondary/30"
+                      : "",
+                  ].join(" ")}
+                >
+                  <span className="text-text-primary dark:text-dark-text-primary">
+                    {candidate.name}
+                  </span>
+                  <span className="ml-2 text-sm text-text-secondary dark:text-dark-text-secondary">
+                    {[candidate.admin1, candidate.country]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </span>
+                </li>
+              ))}
+            </motion.ul>
+          )}
+        </AnimatePresence>
+      </div>
+
       {/* Error */}
       <AnimatePresence>
         {error && (
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+import logger from "@/lib/utils/logger";
+
+/**
+ * Registers the offline service worker (public/sw.js).
+ * Skipped in development, where cached pages would get in the way of HMR.
+ * The build ID in the script URL installs a new worker on each deploy,
+ * which replaces the previous build's app shell caches.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register(
+        `/sw.js?build=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID ?? "")}`,
+      )
+      .catch((error) => logger.warn("Service worker registration failed:", error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, ShareNetwork } from "@phosphor-icons/react";
+import { useAudio } from "./AudioProvider";
+import { buildSoundscapeSearch } from "@/lib/shareLink";
+import { track } from "@/lib/utils/analytics";
+import logger from "@/lib/utils/logger";
+import type { WeatherData } from "@/types/weather";
+
+interface ShareButtonProps {
+  data: WeatherData;
+}
+
+/**
+ * ShareButton
+ *
+ * Shares a link to the current soundscape: the place, inside mode with its
+ * filter frequency, and the layer mix. Uses the native share sheet where
+ * there is one, otherwise copies the link.
+ */
+export default function ShareButton({ data }: ShareButtonProps) {
+  const { isInsideMode, insideFilterFrequency, getLayerMix } = useAudio();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+
+    const timeoutId = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timeoutId);
+  }, [copied]);
+
+  const handleShare = async () => {
+    const { lat, lon } = data.biome.coordinates;
+    const { name, region, country } = data.location;
+    const url = `${window.location.origin}/?${buildSoundscapeSearch({
+      lat,
+      lon,
+      name,
+      region,
+      country,
+      inside: isInsideMode,
+      filterFrequency: insideFilterFrequency,
+      mix: getLayerMix(data.biome.type),
+      shared: true,
+    })}`;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `Hearaway – ${name}`, url });
+        track("soundscape_share", { method: "native", biome: data.biome.type });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        track("soundscape_share", { method: "copy", biome: data.biome.type });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      logger.warn("Failed to share soundscape link:", error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleShare}
+      className="mt-3 inline-flex items-center gap-1.5 px-3 py-1 text-sm rounded-full text-text-secondary dark:text-dark-text-secondary hover:text-text-primary dark:hover:text-dark-text-primary bg-accent-secondary/10 dark:bg-dark-accent-secondary/10 hover:bg-accent-secondary/30 dark:hover:bg-dark-accent-secondary/30 transition-colors"
+    >
+      {copied ? (
+        <Check className="size-4" weight="bold" />
+      ) : (
+        <ShareNetwork className="size-4" weight="bold" />
+      )}
+      {copied ? "Link copied" : "Share"}
+    </button>
+  );
+}
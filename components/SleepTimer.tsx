@@ -0,0 +1,202 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useEffect, useState } from "react";
+import { Moon } from "@phosphor-icons/react";
+import { useAudio } from "./AudioProvider";
+import { FloatingCallout } from "./FloatingCallout";
+
+const PRESET_MINUTES = [15, 30, 60, 90];
+
+/** Longest custom timer in minutes */
+const MAX_CUSTOM_MINUTES = 8 * 60;
+
+const chipClassName =
+  "px-3 py-1.5 rounded-full text-sm font-medium bg-accent-secondary/20 dark:bg-dark-accent-secondary/20 text-text-primary dark:text-dark-text-primary hover:bg-accent-primary hover:text-white dark:hover:bg-dark-accent-primary transition-colors";
+
+const inputClassName =
+  "w-full rounded-lg px-3 py-1.5 text-sm bg-accent-secondary/10 dark:bg-dark-accent-secondary/10 border border-accent-secondary/30 dark:border-dark-accent-secondary/30 text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50";
+
+const actionClassName =
+  "w-full px-3 py-1.5 rounded-full text-sm font-semibold bg-accent-primary dark:bg-dark-accent-primary text-white hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed transition-opacity";
+
+/**
+ * Next occurrence of a "HH:MM" wall-clock time after a moment.
+ */
+function getNextTimeAfter(time: string, after: number): number | null {
+  const [hours, minutes] = time.split(":").map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null;
+
+  const next = new Date(after);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= after) next.setDate(next.getDate() + 1);
+  return next.getTime();
+}
+
+function formatClockTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * SleepTimer
+ *
+ * Moon button next to the play control. Fades the soundscape out over the
+ * chosen time, then stops it; an optional wake time fades it back in.
+ */
+export default function SleepTimer() {
+  const { sleepTimer, startSleepTimer, cancelSleepTimer } = useAudio();
+  const [isOpen, setIsOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState("45");
+  const [wakeTime, setWakeTime] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the remaining time fresh while a timer runs
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => setNow(Date.now()), 15000);
+    return () => window.clearInterval(intervalId);
+  }, [sleepTimer]);
+
+  const start = (minutes: number) => {
+    const endsAt = Date.now() + minutes * 60000;
+    startSleepTimer({
+      durationMinutes: minutes,
+      wakeAt: wakeTime ? getNextTimeAfter(wakeTime, endsAt) : null,
+    });
+    setIsOpen(false);
+  };
+
+  const custom = Number(customMinutes);
+  const isCustomValid =
+    Number.isInteger(custom) && custom >= 1 && custom <= MAX_CUSTOM_MINUTES;
+
+  const renderStatus = () => {
+    if (!sleepTimer) return null;
+
+    const minutesLeft = Math.max(
+      1,
+      Math.ceil((sleepTimer.endsAt - now) / 60000),
+    );
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-text-primary dark:text-dark-text-primary">
+          {sleepTimer.asleep
+            ? "Sleeping"
+            : `Fading out, ${minutesLeft} min left`}
+        </p>
+        {sleepTimer.wakeAt && (
+          <p className="text-xs text-text-secondary dark:text-dark-text-secondary">
+            Waking at {formatClockTime(sleepTimer.wakeAt)}
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            cancelSleepTimer();
+            setIsOpen(false);
+          }}
+          className={actionClassName}
+        >
+          {sleepTimer.asleep ? "Wake now" : "Cancel timer"}
+        </button>
+      </div>
+    );
+  };
+
+  const renderSetup = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {PRESET_MINUTES.map((minutes) => (
+          <button
+            key={minutes}
+            type="button"
+            onClick={() => start(minutes)}
+            className={chipClassName}
+          >
+            {minutes} min
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isCustomValid) start(custom);
+        }}
+      >
+        <input
+          type="number"
+          min={1}
+          max={MAX_CUSTOM_MINUTES}
+          value={customMinutes}
+          onChange={(e) => setCustomMinutes(e.target.value)}
+          aria-label="Custom minutes"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={!isCustomValid}
+          className={`${actionClassName} w-auto shrink-0`}
+        >
+          Start
+        </button>
+      </form>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-text-secondary dark:text-dark-text-secondary">
+          Wake at (optional)
+        </span>
+        <input
+          type="time"
+          value={wakeTime}
+          onChange={(e) => setWakeTime(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+
+  const label = sleepTimer ? "Sleep timer (running)" : "Sleep timer";
+
+  return (
+    <FloatingCallout
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      reference={
+        <motion.button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-label={label}
+          aria-expanded={isOpen}
+          title={label}
+          className={[
+            "size-10 grid place-items-center rounded-full shadow-sm focus:outline-none focus:ring-2 focus:ring-accent-primary/50 transition-colors",
+            sleepTimer
+              ? "bg-accent-primary dark:bg-dark-accent-primary text-white"
+              : "bg-accent-secondary/40 dark:bg-dark-accent-secondary/40 hover:bg-accent-primary dark:hover:bg-dark-accent-primary text-text-primary dark:text-dark-text-primary",
+          ].join(" ")}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <Moon className="size-4" weight={sleepTimer ? "fill" : "bold"} />
+        </motion.button>
+      }
+      placement="top"
+      offset={16}
+    >
+      <div className="w-64 space-y-3 leading-relaxed">
+        <p className="text-base font-semibold tracking-tight text-text-primary dark:text-dark-text-primary">
+          Sleep timer
+        </p>
+        {sleepTimer ? renderStatus() : renderSetup()}
+      </div>
+    </FloatingCallout>
+  );
+}
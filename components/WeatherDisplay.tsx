@@ -1,6 +1,7 @@
 "use client";
 
 import type { WeatherData } from "@/types/weather";
+import ShareButton from "./ShareButton";
 
 interface WeatherDisplayProps {
   data: WeatherData;
@@ -16,6 +17,15 @@ export default function WeatherDisplay({ data }: WeatherDisplayProps) {
     hour12: true,
   });
 
+  // When offline, the time the cached conditions were fetched (device time)
+  const cachedTime = data.cached_at
+    ? new Date(data.cached_at).toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+      })
+    : null;
+
   return (
     <div className="w-full max-w-2xl">
       <div className="space-y-8">
@@ -28,6 +38,14 @@ export default function WeatherDisplay({ data }: WeatherDisplayProps) {
             {location.region && `${location.region}, `}
             {location.country}
           </p>
+          {cachedTime && (
+            <p className="mt-3 inline-block px-3 py-1 text-sm rounded-full bg-warm/10 dark:bg-dark-warm/10 text-warm dark:text-dark-warm">
+              Offline – conditions from {cachedTime}
+            </p>
+          )}
+          <div>
+            <ShareButton data={data} />
+          </div>
         </div>
 
         {/* Main Weather Info */}
@@ -1,5 +1,6 @@
 import { useCallback, useRef } from "react";
-import { getBiomeImagePath, getTimeOfDay } from "@/lib/biomeUtils";
+import { getBiomeImagePath, getTimeOfDayFromPhase } from "@/lib/biomeUtils";
+import { getWeatherDayPhase } from "@/lib/solar";
 import { getWeather } from "@/lib/weather";
 import logger from "@/lib/utils/logger";
 
@@ -34,7 +35,7 @@ export function useBackgroundPreload() {
       // Calculate the exact image path
       const imagePath = getBiomeImagePath(
         data.biome.type,
-        getTimeOfDay(data.location.localtime),
+        getTimeOfDayFromPhase(getWeatherDayPhase(data)),
         data.biome.coordinates.lat,
         data.biome.coordinates.lon,
       );
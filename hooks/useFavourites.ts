@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createFavourite,
+  getFavouriteId,
+  loadFavourites,
+  MAX_FAVOURITES,
+  saveFavourites,
+  type FavouritePlace,
+} from "@/lib/favourites";
+import type { LayerOverrides } from "@/types/audio";
+import type { WeatherData } from "@/types/weather";
+
+/**
+ * Hook managing saved places, kept in sync with localStorage.
+ */
+export function useFavourites() {
+  const [favourites, setFavourites] = useState<FavouritePlace[]>([]);
+
+  // Load after mount so server and client render the same empty tray first
+  useEffect(() => {
+    setFavourites(loadFavourites());
+  }, []);
+
+  const update = useCallback(
+    (change: (current: FavouritePlace[]) => FavouritePlace[]) => {
+      setFavourites((current) => {
+        const next = change(current);
+        saveFavourites(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  /**
+   * Whether a place is saved.
+   */
+  const isFavourite = useCallback(
+    (weatherData: WeatherData) => {
+      const { lat, lon } = weatherData.biome.coordinates;
+      const id = getFavouriteId(lat, lon);
+      return favourites.some((place) => place.id === id);
+    },
+    [favourites],
+  );
+
+  /**
+   * Save a place (with its mix), or update it when already saved.
+   * Ignored when every slot is taken.
+   */
+  const addFavourite = useCallback(
+    (weatherData: WeatherData, mix?: LayerOverrides) => {
+      const place = createFavourite(weatherData, mix);
+
+      update((current) => {
+        const index = current.findIndex(({ id }) => id === place.id);
+        if (index !== -1) {
+          return current.map((existing, i) => (i === index ? place : existing));
+        }
+        return current.length < MAX_FAVOURITES ? [...current, place] : current;
+      });
+    },
+    [update],
+  );
+
+  /**
+   * Remove a saved place.
+   */
+  const removeFavourite = useCallback(
+    (id: string) => {
+      update((current) => current.filter((place) => place.id !== id));
+    },
+    [update],
+  );
+
+  return {
+    favourites,
+    isFull: favourites.length >= MAX_FAVOURITES,
+    isFavourite,
+    addFavourite,
+    removeFavourite,
+  };
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AudioBufferCache } from './audioBufferCache';
+
+/** A mono buffer holding the given number of bytes */
+const buffer = (bytes: number) =>
+  ({ length: bytes / 4, numberOfChannels: 1 }) as AudioBuffer;
+
+describe('AudioBufferCache', () => {
+  it('evicts the least recently used buffers over budget', () => {
+    const cache = new AudioBufferCache(300, () => false);
+    cache.set('a', buffer(100));
+    cache.set('b', buffer(100));
+    cache.set('c', buffer(100));
+    cache.get('a'); // b is now the oldest
+    cache.set('d', buffer(100));
+
+    assert.equal(cache.has('a'), true);
+    assert.equal(cache.has('b'), false);
+    assert.equal(cache.has('c'), true);
+    assert.equal(cache.has('d'), true);
+    assert.equal(cache.bytes, 300);
+  });
+
+  it('keeps buffers in use even over budget', () => {
+    const playing = new Set(['a', 'b']);
+    const cache = new AudioBufferCache(150, (soundId) => playing.has(soundId));
+    cache.set('a', buffer(100));
+    cache.set('b', buffer(100));
+    cache.set('c', buffer(100));
+
+    assert.equal(cache.has('a'), true);
+    assert.equal(cache.has('b'), true);
+    assert.equal(cache.has('c'), true);
+    assert.equal(cache.bytes, 300);
+
+    // Once a stops playing the next store evicts it and c, but not b
+    playing.delete('a');
+    cache.set('d', buffer(10));
+    assert.equal(cache.has('a'), false);
+    assert.equal(cache.has('b'), true);
+    assert.equal(cache.has('c'), false);
+    assert.equal(cache.bytes, 110);
+  });
+
+  it('keeps the buffer just stored even when it alone exceeds the budget', () => {
+    const cache = new AudioBufferCache(100, () => false);
+    cache.set('a', buffer(50));
+    cache.set('b', buffer(400));
+
+    assert.equal(cache.has('a'), false);
+    assert.equal(cache.has('b'), true);
+    assert.equal(cache.bytes, 400);
+  });
+
+  it('counts a replaced buffer once', () => {
+    const cache = new AudioBufferCache(1000, () => false);
+    cache.set('a', buffer(100));
+    cache.set('a', buffer(200));
+    assert.equal(cache.bytes, 200);
+
+    cache.delete('a');
+    assert.equal(cache.bytes, 0);
+  });
+
+  it('retains the requested sounds and those in use', () => {
+    const cache = new AudioBufferCache(1000, (soundId) => soundId === 'b');
+    cache.set('a', buffer(100));
+    cache.set('b', buffer(100));
+    cache.set('c', buffer(100));
+
+    assert.deepEqual(cache.retain(new Set(['c'])), ['a']);
+    assert.equal(cache.has('b'), true);
+    assert.equal(cache.has('c'), true);
+    assert.equal(cache.bytes, 200);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Decoded audio buffer cache with a memory budget.
+ *
+ * Decoded PCM is large (a minute of 48 kHz stereo is ~23 MB), so the
+ * AudioManager keeps buffers here instead of holding on to every file it has
+ * ever loaded. Once the budget is exceeded the least recently used buffers are
+ * evicted, except those the caller reports as still in use.
+ */
+export class AudioBufferCache {
+  // Map iteration order doubles as recency order (oldest first)
+  private buffers: Map<string, AudioBuffer> = new Map();
+  private totalBytes = 0;
+
+  /**
+   * @param budgetBytes - Memory budget for decoded audio in bytes
+   * @param isInUse - Whether a buffer must be kept regardless of the budget
+   */
+  constructor(
+    private readonly budgetBytes: number,
+    private readonly isInUse: (soundId: string) => boolean,
+  ) {}
+
+  has(soundId: string): boolean {
+    return this.buffers.has(soundId);
+  }
+
+  /**
+   * Get a buffer and mark it as recently used.
+   */
+  get(soundId: string): AudioBuffer | undefined {
+    const buffer = this.buffers.get(soundId);
+    if (buffer) {
+      this.buffers.delete(soundId);
+      this.buffers.set(soundId, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * Store a buffer, then evict old ones if the budget is exceeded.
+   */
+  set(soundId: string, buffer: AudioBuffer): void {
+    this.delete(soundId);
+    this.buffers.set(soundId, buffer);
+    this.totalBytes += getBufferBytes(buffer);
+    this.trim();
+  }
+
+  delete(soundId: string): void {
+    const buffer = this.buffers.get(soundId);
+    if (!buffer) return;
+
+    this.buffers.delete(soundId);
+    this.totalBytes -= getBufferBytes(buffer);
+  }
+
+  /**
+   * Evict every buffer outside the given set that isn't in use.
+   *
+   * @param soundIds - Sounds to keep
+   * @returns Evicted sound IDs
+   */
+  retain(soundIds: Set<string>): string[] {
+    const evicted = [...this.buffers.keys()].filter(
+      (soundId) => !soundIds.has(soundId) && !this.isInUse(soundId),
+    );
+    evicted.forEach((soundId) => this.delete(soundId));
+    return evicted;
+  }
+
+  clear(): void {
+    this.buffers.clear();
+    this.totalBytes = 0;
+  }
+
+  /** Memory held by decoded buffers in bytes */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Evict least recently used buffers until the cache fits its budget.
+   * Buffers in use and the one just stored are skipped, so the budget is a
+   * soft limit.
+   */
+  private trim(): void {
+    for (const soundId of [...this.buffers.keys()].slice(0, -1)) {
+      if (this.totalBytes <= this.budgetBytes) return;
+      if (!this.isInUse(soundId)) {
+        this.delete(soundId);
+      }
+    }
+  }
+}
+
+/**
+ * Memory held by a decoded buffer (32-bit float samples).
+ */
+function getBufferBytes(buffer: AudioBuffer): number {
+  return buffer.length * buffer.numberOfChannels * 4;
+}
@@ -11,14 +11,42 @@
  */
 
 import { getAudioManager } from './audioManager';
-import { getSoundLayers } from './soundMapping';
-import { getTimeOfDay } from './biomeUtils';
+import {
+  getAccentSpecs,
+  getBiomeSoundIds,
+  getSoundLayers,
+  getWeatherDamping,
+} from './soundMapping';
+import type { SoundLayerOptions } from './soundMapping';
+import { getTimeOfDayFromPhase } from './biomeUtils';
+import { getWeatherDayPhase } from './solar';
 import { getAllSoundIds } from './audioUtils';
+import { loadLayerOverrides, saveLayerOverrides } from './mixOverrides';
+import { getPreloadPlan } from './preloadPlanner';
+import {
+  advanceFocusSession,
+  createFocusSession,
+  DEFAULT_FOCUS_SESSION,
+  getBreakBiome,
+} from './focusSession';
 import logger from './utils/logger';
 import type { BiomeType } from './biomeDetector';
 import type { TimeOfDay } from './biomeUtils';
 import type { WeatherData } from '@/types/weather';
-import type { SoundLayer } from '@/types/audio';
+import type {
+  AccentSpec,
+  CategoryMixState,
+  FocusSessionOptions,
+  FocusSessionState,
+  LayerOverride,
+  LayerOverrides,
+  MixerLayer,
+  PreloadProgress,
+  SleepTimerOptions,
+  SleepTimerState,
+  SoundCategory,
+  SoundLayer,
+} from '@/types/audio';
 
 /**
  * Configuration for soundscape transitions.
@@ -32,8 +60,17 @@ export interface SoundscapeTransitionConfig {
 
   /** Whether to stop all sounds before starting new ones */
   clearAll: boolean;
+
+  /** Categories left out of the soundscape (layers and accents) */
+  excludeCategories: SoundCategory[];
 }
 
+/**
+ * Minimum time in seconds for kept layers to glide to a new position.
+ * Wind shifts between weather refreshes should drift, not jump.
+ */
+const POSITION_GLIDE_SECONDS = 12;
+
 /**
  * Default transition configuration.
  * Smooth 5-second crossfades for pleasant soundscape changes.
@@ -42,8 +79,28 @@ const DEFAULT_TRANSITION: SoundscapeTransitionConfig = {
   fadeOutDuration: 5,
   fadeInDuration: 5,
   clearAll: false,
+  excludeCategories: [],
 };
 
+/**
+ * How often the sleep timer checks its deadlines (milliseconds).
+ * Deadlines are wall-clock times, so a throttled background timer only
+ * delays the check; the fade itself runs on the audio clock.
+ */
+const SLEEP_TIMER_CHECK_MS = 5000;
+
+/** Fade-in at the wake time in seconds */
+const WAKE_FADE_SECONDS = 5 * 60;
+
+/** Fade back to full level when a sleep timer is cancelled, in seconds */
+const SLEEP_CANCEL_FADE_SECONDS = 2;
+
+/** How often a focus session checks for the end of its phase (milliseconds) */
+const FOCUS_SESSION_CHECK_MS = 1000;
+
+/** Crossfade between work and break soundscapes in seconds */
+const FOCUS_TRANSITION_SECONDS = 8;
+
 /**
  * AudioController - High-level soundscape management.
  *
@@ -53,7 +110,26 @@ const DEFAULT_TRANSITION: SoundscapeTransitionConfig = {
 export class AudioController {
   private audioManager = getAudioManager();
   private currentSoundscape: SoundLayer[] = [];
+  private playbackLayers: SoundLayer[] = [];
+  private currentAccents: AccentSpec[] = [];
+  private currentBiome: BiomeType | null = null;
+  private layerOverrides: LayerOverrides = {};
+  private layerOverridesSaved = true;
+  private pendingLayerOverrides: {
+    biome: BiomeType;
+    overrides: LayerOverrides;
+  } | null = null;
   private isReady = false;
+  private lastWeatherData: WeatherData | null = null;
+  private sleepTimer: SleepTimerState | null = null;
+  private sleepTimerIntervalId: number | null = null;
+  private sleepTimerListener: ((state: SleepTimerState | null) => void) | null =
+    null;
+  private focusSession: FocusSessionState | null = null;
+  private focusSessionIntervalId: number | null = null;
+  private focusSessionListener:
+    | ((state: FocusSessionState | null, completed: boolean) => void)
+    | null = null;
 
   /**
    * Initialize the audio system.
@@ -84,26 +160,59 @@ export class AudioController {
   }
 
   /**
-   * Preload all audio files for instant playback.
+   * Preload audio files for instant playback.
    *
    * Recommended to call during app loading after initialization.
-   * Can be called progressively or all at once.
+   * Can be called progressively or all at once. Long beds stream when they
+   * play, so they're skipped.
    *
-   * @param soundIds - Optional array of specific sounds to preload (defaults to all)
+   * @param soundIds - Optional array of specific sounds to preload
+   *   (defaults to the current biome's sounds, or all before a soundscape is set)
    * @returns Promise that resolves when preloading is complete
    *
    * @example
-   * await controller.preloadSounds();  // Preload everything
+   * await controller.preloadSounds();  // Preload the current biome
    */
   async preloadSounds(soundIds?: string[]): Promise<void> {
     if (!this.isReady) {
       throw new Error('AudioController not initialized. Call initialize() first.');
     }
 
-    const idsToLoad = soundIds || getAllSoundIds();
+    const idsToLoad =
+      soundIds ||
+      (this.currentBiome ? getBiomeSoundIds(this.currentBiome) : getAllSoundIds());
     await this.audioManager.preloadSounds(idsToLoad);
   }
 
+  /**
+   * Preload what the soundscape is likely to need next.
+   *
+   * Loads every sound the biome can play at this time of day in any
+   * weather, then the upcoming day phase and the forecast weather (see
+   * getPreloadPlan). Call after updateSoundscape.
+   *
+   * @param weatherData - Current weather and biome data
+   * @param onProgress - Called as files finish loading
+   * @returns Promise that resolves when preloading is complete
+   *
+   * @example
+   * await controller.updateSoundscape(weatherData);
+   * await controller.preloadAhead(weatherData, ({ loaded, total }) => ...);
+   */
+  async preloadAhead(
+    weatherData: WeatherData,
+    onProgress?: (progress: PreloadProgress) => void
+  ): Promise<void> {
+    if (!this.isReady) {
+      throw new Error('AudioController not initialized. Call initialize() first.');
+    }
+
+    const { current, next } = getPreloadPlan(weatherData);
+    logger.debug('Preload plan:', { current, next });
+
+    await this.audioManager.preloadSounds([...current, ...next], onProgress);
+  }
+
   /**
    * Update the soundscape based on weather data.
    *
@@ -129,26 +238,86 @@ export class AudioController {
       return;
     }
 
-    const transition = { ...DEFAULT_TRANSITION, ...config };
+    // While asleep or on a break elsewhere, keep the latest weather for later
+    // instead of playing it
+    this.lastWeatherData = weatherData;
+    if (this.sleepTimer?.asleep) {
+      logger.debug('Soundscape update deferred until the sleep timer wakes');
+      return;
+    }
+    if (
+      this.focusSession?.phase === 'break' &&
+      this.focusSession.breakStyle === 'biome'
+    ) {
+      logger.debug('Soundscape update deferred until the focus break ends');
+      return;
+    }
+
+    const transition = {
+      ...DEFAULT_TRANSITION,
+      excludeCategories: this.getFocusExcludedCategories(),
+      ...config,
+    };
 
     // Extract relevant data
     const biome = weatherData.biome.type;
-    const timeOfDay = getTimeOfDay(weatherData.location.localtime);
+    const dayPhase = getWeatherDayPhase(weatherData);
+    const timeOfDay = getTimeOfDayFromPhase(dayPhase);
     const weatherCode = weatherData.current.condition.code;
     const windSpeed = weatherData.current.wind_kph;
+    const windDirection = weatherData.current.wind_dir;
     const humidity = weatherData.current.humidity;
+    const temperatureC = weatherData.current.temp_c;
+
+    // Seeds the optional layers, so refreshes don't reshuffle them
+    const location = {
+      ...weatherData.biome.coordinates,
+      localtime: weatherData.location.localtime,
+    };
 
     // Get new sound layers
-    const newLayers = getSoundLayers(biome, timeOfDay, weatherCode, windSpeed, humidity);
+    const newLayers = getSoundLayers(
+      biome,
+      timeOfDay,
+      weatherCode,
+      windSpeed,
+      humidity,
+      { windDirection, location, dayPhase, temperatureC }
+    ).filter((layer) => !transition.excludeCategories.includes(layer.category));
+    this.useBiomeOverrides(biome);
 
-    logger.debug(`Updating soundscape for ${biome} at ${timeOfDay}:`, {
+    logger.debug(`Updating soundscape for ${biome} at ${dayPhase}:`, {
       layers: newLayers.length,
       weather: weatherCode,
-      wind: `${windSpeed} kph`,
+      wind: `${windSpeed} kph from ${windDirection}°`,
+      temperature: `${temperatureC}°C`,
     });
 
+    // Decode the new layers first so they start together
+    await this.audioManager.preloadSounds(
+      newLayers.map((layer) => layer.soundId)
+    );
+
     // Apply soundscape transition
     await this.transitionSoundscape(newLayers, transition);
+    this.setCurrentAccents(
+      getAccentSpecs(
+        biome,
+        timeOfDay,
+        weatherCode,
+        windSpeed,
+        windDirection
+      ).filter(
+        (accent) => !transition.excludeCategories.includes(accent.category)
+      )
+    );
+    this.audioManager.setWeatherDamping(
+      getWeatherDamping(weatherCode),
+      transition.fadeInDuration
+    );
+
+    // Release decoded audio of the previous biome
+    this.audioManager.retainSounds(getBiomeSoundIds(biome));
 
     // Update current state
     this.currentSoundscape = newLayers;
@@ -163,15 +332,22 @@ export class AudioController {
    * 3. Identify sounds to keep (in both, may adjust volume)
    * 4. Fade out removed sounds
    * 5. Fade in new sounds
-   * 6. Adjust volume for kept sounds
+   * 6. Adjust volume and position for kept sounds
+   *
+   * User mix overrides are applied to the target layers first, so kept
+   * sounds are compared against what is actually playing.
    *
-   * @param newLayers - Target sound layer configuration
+   * @param targetLayers - Target sound layer configuration
    * @param config - Transition configuration
    */
   private async transitionSoundscape(
-    newLayers: SoundLayer[],
+    targetLayers: SoundLayer[],
     config: SoundscapeTransitionConfig
   ): Promise<void> {
+    const previousLayers = this.playbackLayers;
+    const newLayers = targetLayers.map((layer) => this.applyOverride(layer));
+    this.playbackLayers = newLayers;
+
     // If clearAll is true, stop everything and start fresh
     if (config.clearAll) {
       this.audioManager.stopAll(config.fadeOutDuration);
@@ -183,6 +359,9 @@ export class AudioController {
             fadeInDuration: config.fadeInDuration,
             category: layer.category,
             startDelay: layer.startDelay,
+            pan: layer.pan,
+            azimuth: layer.azimuth,
+            distance: layer.distance,
           });
         }
       }, config.fadeOutDuration * 1000);
@@ -190,11 +369,11 @@ export class AudioController {
     }
 
     // Build maps for comparison
-    const currentMap = new Map(this.currentSoundscape.map((l) => [l.soundId, l]));
+    const currentMap = new Map(previousLayers.map((l) => [l.soundId, l]));
     const newMap = new Map(newLayers.map((l) => [l.soundId, l]));
 
     // Find sounds to remove
-    const toRemove = this.currentSoundscape.filter((layer) => !newMap.has(layer.soundId));
+    const toRemove = previousLayers.filter((layer) => !newMap.has(layer.soundId));
 
     // Find sounds to add
     const toAdd = newLayers.filter((layer) => !currentMap.has(layer.soundId));
@@ -215,6 +394,9 @@ export class AudioController {
         fadeInDuration: layer.fadeInDuration || config.fadeInDuration,
         category: layer.category,
         startDelay: layer.startDelay,
+        pan: layer.pan,
+        azimuth: layer.azimuth,
+        distance: layer.distance,
       });
     }
 
@@ -225,6 +407,18 @@ export class AudioController {
         // Only adjust if volume change is significant
         this.audioManager.setVolume(layer.soundId, layer.volume, config.fadeInDuration);
       }
+      if (
+        currentLayer.pan !== layer.pan ||
+        currentLayer.azimuth !== layer.azimuth ||
+        currentLayer.distance !== layer.distance
+      ) {
+        // Glide the sound to its new place rather than jumping
+        this.audioManager.setPosition(
+          layer.soundId,
+          layer,
+          Math.max(config.fadeInDuration, POSITION_GLIDE_SECONDS)
+        );
+      }
     });
 
     logger.debug('Soundscape transition:', {
@@ -245,6 +439,7 @@ export class AudioController {
    * @param windSpeed - Wind speed in kph
    * @param humidity - Humidity percentage
    * @param config - Optional transition configuration
+   * @param options - Optional wind direction, location or seed, day phase and temperature
    *
    * @example
    * controller.setSoundscape('forest', 'night', 0, 10, 80);
@@ -255,7 +450,8 @@ export class AudioController {
     weatherCode: number,
     windSpeed: number,
     humidity: number,
-    config: Partial<SoundscapeTransitionConfig> = {}
+    config: Partial<SoundscapeTransitionConfig> = {},
+    options: SoundLayerOptions = {}
   ): Promise<void> {
     if (!this.isReady) {
       logger.error('AudioController not initialized');
@@ -263,9 +459,36 @@ export class AudioController {
     }
 
     const transition = { ...DEFAULT_TRANSITION, ...config };
-    const newLayers = getSoundLayers(biome, timeOfDay, weatherCode, windSpeed, humidity);
+    const newLayers = getSoundLayers(
+      biome,
+      timeOfDay,
+      weatherCode,
+      windSpeed,
+      humidity,
+      options
+    ).filter((layer) => !transition.excludeCategories.includes(layer.category));
+    this.useBiomeOverrides(biome);
 
     await this.transitionSoundscape(newLayers, transition);
+    this.setCurrentAccents(
+      getAccentSpecs(
+        biome,
+        timeOfDay,
+        weatherCode,
+        windSpeed,
+        options.windDirection
+      ).filter(
+        (accent) => !transition.excludeCategories.includes(accent.category)
+      )
+    );
+    this.audioManager.setWeatherDamping(
+      getWeatherDamping(weatherCode),
+      transition.fadeInDuration
+    );
+
+    // Release decoded audio of the previous biome
+    this.audioManager.retainSounds(getBiomeSoundIds(biome));
+
     this.currentSoundscape = newLayers;
   }
 
@@ -279,7 +502,291 @@ export class AudioController {
    */
   stopSoundscape(fadeOutDuration = 3): void {
     this.audioManager.stopAll(fadeOutDuration);
+    this.audioManager.clearAccents(fadeOutDuration);
+    this.currentAccents = [];
     this.currentSoundscape = [];
+    this.playbackLayers = [];
+  }
+
+  /**
+   * Start a sleep timer.
+   *
+   * The whole mix fades out over the timer's duration, then the soundscape
+   * stops. With a wake time, it comes back with the latest weather and fades
+   * in over a few minutes. Starting a new timer replaces the running one.
+   *
+   * @param options - Duration in minutes and optional wake time
+   * @param onChange - Called when the timer falls asleep, wakes or ends
+   * @returns State of the new timer
+   *
+   * @example
+   * controller.startSleepTimer({ durationMinutes: 30 });
+   */
+  startSleepTimer(
+    options: SleepTimerOptions,
+    onChange?: (state: SleepTimerState | null) => void
+  ): SleepTimerState | null {
+    if (this.sleepTimer?.asleep) {
+      logger.warn('Cannot start a sleep timer while asleep');
+      return this.sleepTimer;
+    }
+
+    const durationSeconds = Math.max(1, options.durationMinutes) * 60;
+    const endsAt = Date.now() + durationSeconds * 1000;
+    const wakeAt =
+      options.wakeAt && options.wakeAt > endsAt ? options.wakeAt : null;
+
+    this.clearSleepTimerCheck();
+    this.sleepTimer = { endsAt, wakeAt, asleep: false };
+    this.sleepTimerListener = onChange ?? null;
+    this.audioManager.fadeSleepGain(0, durationSeconds);
+
+    this.sleepTimerIntervalId = window.setInterval(
+      this.checkSleepTimer,
+      SLEEP_TIMER_CHECK_MS
+    );
+    document.addEventListener('visibilitychange', this.checkSleepTimer);
+
+    logger.debug(`Sleep timer set for ${options.durationMinutes} minutes`, {
+      wakeAt: wakeAt ? new Date(wakeAt).toISOString() : null,
+    });
+
+    return this.sleepTimer;
+  }
+
+  /**
+   * Cancel the sleep timer, fading back to full level.
+   * When the soundscape already stopped, it resumes now.
+   *
+   * @returns Promise that resolves once the soundscape is playing again
+   */
+  async cancelSleepTimer(): Promise<void> {
+    if (!this.sleepTimer) return;
+    await this.endSleepTimer(SLEEP_CANCEL_FADE_SECONDS);
+  }
+
+  /**
+   * Get the running sleep timer.
+   *
+   * @returns Timer state, or null when no timer is set
+   */
+  getSleepTimer(): SleepTimerState | null {
+    return this.sleepTimer;
+  }
+
+  /**
+   * Stop the soundscape once the fade-out is over, and wake it at the wake time.
+   */
+  private checkSleepTimer = (): void => {
+    const timer = this.sleepTimer;
+    if (!timer) return;
+
+    const now = Date.now();
+
+    if (!timer.asleep && now >= timer.endsAt) {
+      // Already silent, so the stop fade is only a safety margin
+      this.stopSoundscape(1);
+      this.sleepTimer = { ...timer, asleep: true };
+
+      if (timer.wakeAt === null) {
+        // Nothing left to check; stay asleep until cancelled
+        this.clearSleepTimerCheck();
+      }
+      this.sleepTimerListener?.(this.sleepTimer);
+      return;
+    }
+
+    if (timer.asleep && timer.wakeAt !== null && now >= timer.wakeAt) {
+      this.endSleepTimer(WAKE_FADE_SECONDS).catch((error: unknown) =>
+        logger.error('Failed to wake soundscape:', error)
+      );
+    }
+  };
+
+  /**
+   * Clear the sleep timer, restoring the soundscape if it stopped.
+   *
+   * @param fadeInDuration - Fade back to full level in seconds
+   */
+  private async endSleepTimer(fadeInDuration: number): Promise<void> {
+    const wasAsleep = this.sleepTimer?.asleep ?? false;
+    const listener = this.sleepTimerListener;
+
+    this.clearSleepTimerCheck();
+    this.sleepTimer = null;
+    this.sleepTimerListener = null;
+
+    try {
+      if (wasAsleep && this.lastWeatherData) {
+        await this.updateSoundscape(this.lastWeatherData);
+      }
+      this.audioManager.fadeSleepGain(1, fadeInDuration);
+    } finally {
+      listener?.(null);
+    }
+  }
+
+  private clearSleepTimerCheck(): void {
+    if (this.sleepTimerIntervalId !== null) {
+      window.clearInterval(this.sleepTimerIntervalId);
+      this.sleepTimerIntervalId = null;
+    }
+    document.removeEventListener('visibilitychange', this.checkSleepTimer);
+  }
+
+  /**
+   * Start a focus session of work intervals and breaks.
+   *
+   * Work intervals play the location's soundscape. Breaks move to a calmer
+   * biome, or drop the accents, and a bell marks every boundary. Starting a
+   * new session replaces the running one.
+   *
+   * @param options - Interval lengths, cycle count and break style
+   * @param onChange - Called after each phase change; `completed` is true
+   *   (with a null state) when the last work interval ends
+   * @returns State of the new session
+   *
+   * @example
+   * controller.startFocusSession({ workMinutes: 50, breakMinutes: 10 });
+   */
+  startFocusSession(
+    options: Partial<FocusSessionOptions> = {},
+    onChange?: (state: FocusSessionState | null, completed: boolean) => void
+  ): FocusSessionState {
+    const wasOnBreak = this.focusSession?.phase === 'break';
+
+    this.clearFocusSessionCheck();
+    this.focusSession = createFocusSession(
+      { ...DEFAULT_FOCUS_SESSION, ...options },
+      Date.now()
+    );
+    this.focusSessionListener = onChange ?? null;
+
+    this.focusSessionIntervalId = window.setInterval(
+      this.checkFocusSession,
+      FOCUS_SESSION_CHECK_MS
+    );
+    document.addEventListener('visibilitychange', this.checkFocusSession);
+
+    this.audioManager.playBell();
+    if (wasOnBreak) {
+      this.applyFocusPhase(this.focusSession).catch((error: unknown) =>
+        logger.error('Failed to restore work soundscape:', error)
+      );
+    }
+
+    return this.focusSession;
+  }
+
+  /**
+   * Stop the focus session, returning to the location's soundscape.
+   *
+   * @returns Promise that resolves once the work soundscape is back
+   */
+  async stopFocusSession(): Promise<void> {
+    const session = this.focusSession;
+    if (!session) return;
+
+    this.clearFocusSessionCheck();
+    this.focusSession = null;
+    this.focusSessionListener = null;
+
+    if (session.phase === 'break') {
+      await this.applyFocusPhase(null);
+    }
+  }
+
+  /**
+   * Get the running focus session.
+   *
+   * @returns Session state, or null when no session runs
+   */
+  getFocusSession(): FocusSessionState | null {
+    return this.focusSession;
+  }
+
+  /**
+   * Move to the next phase once the current one is over.
+   */
+  private checkFocusSession = (): void => {
+    const session = this.focusSession;
+    if (!session || Date.now() < session.phaseEndsAt) return;
+
+    const next = advanceFocusSession(session, Date.now());
+    const listener = this.focusSessionListener;
+    this.audioManager.playBell();
+
+    if (!next) {
+      // The last work interval already plays the location's soundscape
+      this.clearFocusSessionCheck();
+      this.focusSession = null;
+      this.focusSessionListener = null;
+      listener?.(null, true);
+      return;
+    }
+
+    this.focusSession = next;
+    this.applyFocusPhase(next)
+      .catch((error: unknown) =>
+        logger.error('Failed to change focus phase:', error)
+      )
+      .finally(() => listener?.(next, false));
+  };
+
+  /**
+   * Play the soundscape of a focus phase (null for the plain soundscape).
+   */
+  private async applyFocusPhase(
+    session: FocusSessionState | null
+  ): Promise<void> {
+    const weatherData = this.lastWeatherData;
+    if (!weatherData) return;
+
+    const config = {
+      fadeOutDuration: FOCUS_TRANSITION_SECONDS,
+      fadeInDuration: FOCUS_TRANSITION_SECONDS,
+    };
+
+    if (session?.phase !== 'break' || session.breakStyle === 'quiet') {
+      // Excluded categories follow the session phase
+      await this.updateSoundscape(weatherData, config);
+      return;
+    }
+
+    const { lat, lon } = weatherData.biome.coordinates;
+    const dayPhase = getWeatherDayPhase(weatherData);
+    await this.setSoundscape(
+      getBreakBiome(weatherData.biome.type),
+      getTimeOfDayFromPhase(dayPhase),
+      weatherData.current.condition.code,
+      weatherData.current.wind_kph,
+      weatherData.current.humidity,
+      config,
+      {
+        windDirection: weatherData.current.wind_dir,
+        location: { lat, lon, localtime: weatherData.location.localtime },
+        dayPhase,
+        temperatureC: weatherData.current.temp_c,
+      }
+    );
+  }
+
+  /**
+   * Categories the current focus phase leaves out.
+   */
+  private getFocusExcludedCategories(): SoundCategory[] {
+    const session = this.focusSession;
+    return session?.phase === 'break' && session.breakStyle === 'quiet'
+      ? ['accent']
+      : [];
+  }
+
+  private clearFocusSessionCheck(): void {
+    if (this.focusSessionIntervalId !== null) {
+      window.clearInterval(this.focusSessionIntervalId);
+      this.focusSessionIntervalId = null;
+    }
+    document.removeEventListener('visibilitychange', this.checkFocusSession);
   }
 
   /**
@@ -294,6 +801,53 @@ export class AudioController {
     this.audioManager.setMasterVolume(volume);
   }
 
+  /**
+   * Set the volume of a category submix bus.
+   *
+   * @param category - Sound category ('base', 'weather' or 'accent')
+   * @param volume - Volume level (0.0 to 1.0)
+   *
+   * @example
+   * controller.setCategoryVolume('accent', 0.3);  // Quieter traffic accents
+   */
+  setCategoryVolume(category: SoundCategory, volume: number): void {
+    this.audioManager.setCategoryVolume(category, volume);
+  }
+
+  /**
+   * Mute or unmute a sound category.
+   *
+   * @param category - Sound category
+   * @param muted - True to mute
+   *
+   * @example
+   * controller.muteCategory('weather', true);  // No thunder tonight
+   */
+  muteCategory(category: SoundCategory, muted: boolean): void {
+    this.audioManager.muteCategory(category, muted);
+  }
+
+  /**
+   * Solo a sound category (or clear the solo with null).
+   *
+   * @param category - Category to solo, or null for the full mix
+   *
+   * @example
+   * controller.soloCategory('base');  // Only the biome bed
+   */
+  soloCategory(category: SoundCategory | null): void {
+    this.audioManager.soloCategory(category);
+  }
+
+  /**
+   * Get level, mute and solo state of every sound category.
+   *
+   * @returns Mix state keyed by category
+   */
+  getCategoryStates(): Record<SoundCategory, CategoryMixState> {
+    return this.audioManager.getCategoryStates();
+  }
+
   /**
    * Toggle mute state.
    *
@@ -315,6 +869,229 @@ export class AudioController {
     return [...this.currentSoundscape];
   }
 
+  /**
+   * Get current soundscape layers with user mix overrides resolved.
+   *
+   * @returns Layers as shown in the mixer panel
+   */
+  getMixerLayers(): MixerLayer[] {
+    const toMixerLayer = (
+      soundId: string,
+      category: SoundCategory,
+      defaultVolume: number
+    ): MixerLayer => {
+      const override = this.layerOverrides[soundId];
+      return {
+        soundId,
+        category,
+        defaultVolume,
+        volume: override?.volume ?? defaultVolume,
+        muted: override?.muted ?? false,
+        overridden: override !== undefined,
+      };
+    };
+
+    // Accents are listed by their loudest shot
+    return [
+      ...this.currentSoundscape.map((layer) =>
+        toMixerLayer(layer.soundId, layer.category, layer.volume)
+      ),
+      ...this.currentAccents.map((accent) =>
+        toMixerLayer(accent.soundId, accent.category, accent.volume[1])
+      ),
+    ];
+  }
+
+  /**
+   * Override the volume of a single layer.
+   *
+   * The override is saved for the current biome and reapplied whenever
+   * the soundscape is regenerated.
+   *
+   * @param soundId - Layer sound identifier
+   * @param volume - Volume level (0.0 to 1.0)
+   *
+   * @example
+   * controller.setLayerVolume('traffic_medium_close', 0.2);
+   */
+  setLayerVolume(soundId: string, volume: number): void {
+    const clampedVolume = Math.max(0, Math.min(1, volume));
+    this.updateLayerOverride(soundId, { volume: clampedVolume });
+  }
+
+  /**
+   * Mute or unmute a single layer.
+   *
+   * @param soundId - Layer sound identifier
+   * @param muted - True to mute
+   *
+   * @example
+   * controller.setLayerMuted('church-bells_medium_far', true);
+   */
+  setLayerMuted(soundId: string, muted: boolean): void {
+    this.updateLayerOverride(soundId, { muted });
+  }
+
+  /**
+   * Clear every layer override for the current biome.
+   */
+  resetLayerOverrides(): void {
+    const overriddenIds = Object.keys(this.layerOverrides);
+    this.layerOverrides = {};
+    this.persistLayerOverrides();
+    overriddenIds.forEach((soundId) => this.refreshLayerVolume(soundId, 0.3));
+  }
+
+  /**
+   * Get the layer overrides saved for a biome.
+   *
+   * @param biome - Biome type
+   * @returns Overrides keyed by sound ID
+   */
+  getLayerOverrides(biome: BiomeType): LayerOverrides {
+    if (biome === this.currentBiome) return { ...this.layerOverrides };
+    if (this.pendingLayerOverrides?.biome === biome) {
+      return { ...this.pendingLayerOverrides.overrides };
+    }
+    return loadLayerOverrides(biome);
+  }
+
+  /**
+   * Replace the layer overrides of a biome (e.g., from a favourite).
+   * Applied right away when the biome is playing, otherwise once it plays.
+   *
+   * Without saving (e.g., a shared link's mix), the overrides last until the
+   * biome changes and the biome's saved mix is left as it was; adjustments
+   * made meanwhile aren't saved either.
+   *
+   * @param biome - Biome type
+   * @param overrides - Overrides keyed by sound ID
+   * @param options.save - Save as the biome's mix (default: true)
+   *
+   * @example
+   * controller.setLayerOverrides('city', { fan_close: { muted: true } }, { save: false });
+   */
+  setLayerOverrides(
+    biome: BiomeType,
+    overrides: LayerOverrides,
+    { save = true }: { save?: boolean } = {}
+  ): void {
+    if (save) saveLayerOverrides(biome, overrides);
+    if (biome !== this.currentBiome) {
+      this.pendingLayerOverrides = save
+        ? null
+        : { biome, overrides: { ...overrides } };
+      return;
+    }
+
+    this.layerOverridesSaved = save;
+    const changedIds = new Set([
+      ...Object.keys(this.layerOverrides),
+      ...Object.keys(overrides),
+    ]);
+    this.layerOverrides = { ...overrides };
+    changedIds.forEach((soundId) => this.refreshLayerVolume(soundId, 0.3));
+  }
+
+  /**
+   * Merge a change into a layer override, persist it and apply it.
+   */
+  private updateLayerOverride(
+    soundId: string,
+    change: LayerOverride
+  ): void {
+    this.layerOverrides = {
+      ...this.layerOverrides,
+      [soundId]: { ...this.layerOverrides[soundId], ...change },
+    };
+    this.persistLayerOverrides();
+    this.refreshLayerVolume(soundId, change.muted === undefined ? 0.05 : 0.3);
+  }
+
+  /**
+   * Ramp a playing layer to its overridden volume.
+   * Accents pick up the override from their next shot.
+   */
+  private refreshLayerVolume(soundId: string, fadeDuration: number): void {
+    if (this.currentAccents.some((accent) => accent.soundId === soundId)) {
+      this.setCurrentAccents(this.currentAccents);
+      return;
+    }
+
+    const layer = this.currentSoundscape.find((l) => l.soundId === soundId);
+    if (!layer) return;
+
+    const resolved = this.applyOverride(layer);
+    this.playbackLayers = this.playbackLayers.map((l) =>
+      l.soundId === soundId ? resolved : l
+    );
+    this.audioManager.setVolume(soundId, resolved.volume, fadeDuration);
+  }
+
+  /**
+   * Resolve a mapped layer against the user's overrides.
+   */
+  private applyOverride(layer: SoundLayer): SoundLayer {
+    const override = this.layerOverrides[layer.soundId];
+    if (!override) return layer;
+
+    return {
+      ...layer,
+      volume: override.muted ? 0 : override.volume ?? layer.volume,
+    };
+  }
+
+  /**
+   * Resolve a mapped accent against the user's overrides: the shot gain
+   * range is scaled so its loudest shot matches the overridden volume, and
+   * a muted accent isn't scheduled at all.
+   */
+  private applyAccentOverride(accent: AccentSpec): AccentSpec | null {
+    const override = this.layerOverrides[accent.soundId];
+    if (!override) return accent;
+    if (override.muted) return null;
+    if (override.volume === undefined || accent.volume[1] <= 0) return accent;
+
+    const scale = override.volume / accent.volume[1];
+    return {
+      ...accent,
+      volume: [accent.volume[0] * scale, override.volume],
+    };
+  }
+
+  /**
+   * Schedule the mapped accents with the user's overrides applied.
+   */
+  private setCurrentAccents(accents: AccentSpec[]): void {
+    this.currentAccents = accents;
+    this.audioManager.setAccents(
+      accents
+        .map((accent) => this.applyAccentOverride(accent))
+        .filter((accent): accent is AccentSpec => accent !== null)
+    );
+  }
+
+  /**
+   * Switch to the saved overrides of a biome when the biome changes.
+   */
+  private useBiomeOverrides(biome: BiomeType): void {
+    if (this.currentBiome === biome) return;
+    this.currentBiome = biome;
+
+    // Unsaved overrides only apply to the biome they were set for
+    const pending = this.pendingLayerOverrides;
+    this.pendingLayerOverrides = null;
+    this.layerOverridesSaved = pending?.biome !== biome;
+    this.layerOverrides =
+      pending?.biome === biome ? pending.overrides : loadLayerOverrides(biome);
+  }
+
+  private persistLayerOverrides(): void {
+    if (this.currentBiome && this.layerOverridesSaved) {
+      saveLayerOverrides(this.currentBiome, this.layerOverrides);
+    }
+  }
+
   /**
    * Get current audio system state.
    *
@@ -372,8 +1149,16 @@ export class AudioController {
    * Call when the audio system is no longer needed.
    */
   dispose(): void {
+    this.clearSleepTimerCheck();
+    this.sleepTimer = null;
+    this.sleepTimerListener = null;
+    this.clearFocusSessionCheck();
+    this.focusSession = null;
+    this.focusSessionListener = null;
     this.audioManager.dispose();
     this.currentSoundscape = [];
+    this.playbackLayers = [];
+    this.currentAccents = [];
     this.isReady = false;
   }
 }
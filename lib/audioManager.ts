@@ -6,7 +6,13 @@
  * - Exponential volume curves for natural-sounding transitions
  * - Preloading and caching of audio buffers
  * - Master volume and mute control
- * - Intelligent loop scheduling to prevent gaps
+ * - Sleep fades (long fade-out to silence and back) on a dedicated gain stage
+ * - Per-category submix buses with volume, mute and solo
+ * - Weather damping (high-frequency rolloff for snow and fog)
+ * - Stereo panning and HRTF spatial placement per track
+ * - Look-ahead loop scheduling on the AudioContext clock to prevent gaps
+ * - Procedural one-shot accents fired at random intervals
+ * - A synthesized bell cue (focus session boundaries)
  *
  * Design principles:
  * - Never silence: At least one sound always playing
@@ -15,10 +21,87 @@
  * - Error resilient: Handle autoplay restrictions and missing files gracefully
  */
 
-import type { AudioTrack, PlayOptions, AudioSystemState } from "@/types/audio";
-import { getAudioPathVariants, calculateFadeDuration } from "./audioUtils";
+import type {
+  AccentShot,
+  AccentSpec,
+  AudioTrack,
+  LoopPoints,
+  LoopVoice,
+  PlayOptions,
+  PreloadProgress,
+  AudioSystemState,
+  CategoryMixState,
+  SoundCategory,
+  SpatialPosition,
+  ScheduledAccent,
+  StreamVoice,
+} from "@/types/audio";
+import {
+  getAudioPathVariants,
+  getLoopPoints,
+  getNormalizationGain,
+  getSoundVariants,
+  calculateFadeDuration,
+  shouldStreamSound,
+  MAX_INSIDE_FILTER_FREQUENCY,
+  MIN_INSIDE_FILTER_FREQUENCY,
+  SOUND_CATEGORIES,
+} from "./audioUtils";
+import { AudioBufferCache } from "./audioBufferCache";
 import logger from "./utils/logger";
 
+/**
+ * How often the look-ahead scheduler wakes up (milliseconds).
+ * Timer precision doesn't matter: every event is placed on the audio clock.
+ */
+const SCHEDULER_INTERVAL_MS = 1000;
+
+/**
+ * How far ahead loop iterations are scheduled on the AudioContext clock.
+ *
+ * Background tabs can throttle timers to one wake-up per minute, so the
+ * horizon must comfortably exceed that for loops to stay gap-free.
+ */
+const LOOKAHEAD_SECONDS = 120;
+
+/** Minimum start offset for Web Audio API stability */
+const MIN_START_DELAY = 0.02;
+
+/** Smallest gain used by exponential ramps (they cannot reach 0) */
+const FADE_EPSILON = 0.001;
+
+/** Corner frequency of the weather damping high-shelf filter (Hz) */
+const WEATHER_DAMPING_FREQUENCY = 3000;
+
+/** Default fade at each end of an accent shot in seconds */
+const ACCENT_FADE_SECONDS = 0.5;
+
+/** Points in the value curve of a sleep fade */
+const SLEEP_CURVE_POINTS = 256;
+
+/** Fundamental of the bell cue in Hz */
+const BELL_FREQUENCY = 528;
+
+/**
+ * Partials of the bell cue: frequency ratio, level and decay time (seconds).
+ * Inharmonic ratios give the struck-metal colour; upper partials die first.
+ */
+const BELL_PARTIALS = [
+  { ratio: 1, gain: 0.6, decay: 6 },
+  { ratio: 2.76, gain: 0.25, decay: 3.5 },
+  { ratio: 5.4, gain: 0.1, decay: 2 },
+  { ratio: 8.93, gain: 0.05, decay: 1.2 },
+];
+
+/** Number of files fetched and decoded at the same time while preloading */
+const PRELOAD_CONCURRENCY = 4;
+
+/**
+ * Memory budget for decoded audio buffers (bytes).
+ * Buffers of playing tracks and accents are kept even beyond it.
+ */
+const BUFFER_MEMORY_BUDGET_BYTES = 128 * 1024 * 1024;
+
 /**
  * AudioManager - Web Audio API-based sound engine.
  *
@@ -29,23 +112,39 @@ export class AudioManager {
   // Web Audio API core
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
+  private sleepGainNode: GainNode | null = null;
   private lowpassFilterNode: BiquadFilterNode | null = null;
+  private weatherFilterNode: BiquadFilterNode | null = null;
   private compressorNode: DynamicsCompressorNode | null = null;
+  private categoryBuses: Map<SoundCategory, GainNode> = new Map();
 
   // Track management
   private activeTracks: Map<string, AudioTrack> = new Map();
-  private audioBuffers: Map<string, AudioBuffer> = new Map();
-  private loopTimeouts: Map<string, number> = new Map();
+  private audioBuffers = new AudioBufferCache(
+    BUFFER_MEMORY_BUDGET_BYTES,
+    (soundId) => this.isBufferInUse(soundId),
+  );
+  private pendingLoads: Map<string, Promise<AudioBuffer | null>> = new Map();
   private playTokens: Map<string, number> = new Map();
+  private accents: Map<string, ScheduledAccent> = new Map();
+  private schedulerIntervalId: number | null = null;
 
   // State
   private isMuted = false;
   private masterVolume = 1.0;
   private isInsideMode = false;
   private insideFilterFrequency = 1500;
+  private weatherDampingDb = 0;
   private isInitialized = false;
   private preloadComplete = false;
   private failedLoads: string[] = [];
+  private categoryVolumes: Record<SoundCategory, number> = {
+    base: 1.0,
+    weather: 1.0,
+    accent: 1.0,
+  };
+  private mutedCategories: Set<SoundCategory> = new Set();
+  private soloedCategory: SoundCategory | null = null;
 
   /**
    * Ensure the audio context is active and ready for operations.
@@ -142,6 +241,10 @@ export class AudioManager {
       this.masterGainNode = this.audioContext.createGain();
       this.masterGainNode.gain.value = this.masterVolume;
 
+      // Create sleep gain stage, kept apart from the master gain so volume and
+      // mute changes don't interrupt a sleep fade
+      this.sleepGainNode = this.audioContext.createGain();
+
       // Create low-pass filter for inside mode effect
       this.lowpassFilterNode = this.audioContext.createBiquadFilter();
       this.lowpassFilterNode.type = "lowpass";
@@ -150,8 +253,25 @@ export class AudioManager {
         : 20000;
       this.lowpassFilterNode.Q.value = 0.7;
 
-      // Audio chain: individual track gains → master gain → lowpass filter → compressor → destination
-      this.masterGainNode.connect(this.lowpassFilterNode);
+      // Create high-shelf filter for weather damping (snow swallows highs)
+      this.weatherFilterNode = this.audioContext.createBiquadFilter();
+      this.weatherFilterNode.type = "highshelf";
+      this.weatherFilterNode.frequency.value = WEATHER_DAMPING_FREQUENCY;
+      this.weatherFilterNode.gain.value = this.weatherDampingDb;
+
+      // Create one submix bus per category so layers can be balanced as groups
+      this.categoryBuses.clear();
+      for (const category of SOUND_CATEGORIES) {
+        const bus = this.audioContext.createGain();
+        bus.gain.value = this.getEffectiveCategoryGain(category);
+        bus.connect(this.masterGainNode);
+        this.categoryBuses.set(category, bus);
+      }
+
+      // Audio chain: individual track gains → category bus → master gain → sleep gain → weather filter → lowpass filter → compressor → destination
+      this.masterGainNode.connect(this.sleepGainNode);
+      this.sleepGainNode.connect(this.weatherFilterNode);
+      this.weatherFilterNode.connect(this.lowpassFilterNode);
       this.lowpassFilterNode.connect(this.compressorNode);
       this.compressorNode.connect(this.audioContext.destination);
 
@@ -160,6 +280,8 @@ export class AudioManager {
         await this.audioContext.resume();
       }
 
+      this.startScheduler();
+
       this.isInitialized = true;
       logger.debug("AudioManager initialized successfully");
     } catch (error) {
@@ -169,36 +291,57 @@ export class AudioManager {
   }
 
   /**
-   * Preload all audio files into memory.
+   * Preload audio files into memory.
    *
-   * Fetches and decodes audio files in parallel for instant playback.
-   * Call this during app loading or after init() to prepare the audio system.
+   * Fetches and decodes audio files a few at a time, in the given order, so
+   * the most important sounds arrive first. Call this during app loading or
+   * after init() to prepare the audio system.
    *
-   * @param soundIds - Array of sound IDs to preload (if empty, preloads all)
+   * @param soundIds - Array of sound IDs to preload, most important first
+   * @param onProgress - Called after each file finishes (loaded or failed)
    * @returns Promise that resolves when all files are loaded
    *
    * @example
-   * await audioManager.preloadSounds(['birds_far', 'rain_medium', 'wind_forest_medium']);
+   * await audioManager.preloadSounds(['birds-forest_light_far', 'rain_medium', 'wind_forest_medium']);
    */
-  async preloadSounds(soundIds: string[]): Promise<void> {
+  async preloadSounds(
+    soundIds: string[],
+    onProgress?: (progress: PreloadProgress) => void,
+  ): Promise<void> {
     if (!this.audioContext) {
       throw new Error("AudioManager not initialized. Call init() first.");
     }
 
-    logger.debug(`Preloading ${soundIds.length} audio files...`);
+    // Include every take of grouped sounds; long beds stream instead
+    const fileIds = [...new Set(soundIds.flatMap(getSoundVariants))].filter(
+      (soundId) => !shouldStreamSound(soundId),
+    );
+
+    logger.debug(`Preloading ${fileIds.length} audio files...`);
     const startTime = Date.now();
 
-    // Load all sounds in parallel
-    const loadPromises = soundIds.map((soundId) =>
-      this.loadAudioBuffer(soundId),
+    // Each worker takes the next file in line until none are left
+    const total = fileIds.length;
+    let nextIndex = 0;
+    let loaded = 0;
+    onProgress?.({ loaded, total });
+
+    const worker = async () => {
+      while (nextIndex < total) {
+        const soundId = fileIds[nextIndex++];
+        await this.loadAudioBuffer(soundId).catch(() => null);
+        onProgress?.({ loaded: ++loaded, total });
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(PRELOAD_CONCURRENCY, total) }, worker),
     );
-    await Promise.allSettled(loadPromises);
 
     const duration = Date.now() - startTime;
-    const successCount = soundIds.length - this.failedLoads.length;
+    const successCount = fileIds.filter((id) => this.audioBuffers.has(id)).length;
 
     logger.debug(
-      `Preloaded ${successCount}/${soundIds.length} audio files in ${duration}ms`,
+      `Preloaded ${successCount}/${fileIds.length} audio files in ${duration}ms`,
     );
 
     if (this.failedLoads.length > 0) {
@@ -208,25 +351,80 @@ export class AudioManager {
     this.preloadComplete = true;
   }
 
+  /**
+   * Drop decoded buffers that the given sounds don't need.
+   *
+   * Call when moving to another biome so buffers of the previous one don't
+   * linger until the memory budget forces them out. Buffers of playing tracks
+   * and accents are kept.
+   *
+   * @param soundIds - Sounds that may still play
+   *
+   * @example
+   * audioManager.retainSounds(getBiomeSoundIds('forest'));
+   */
+  retainSounds(soundIds: string[]): void {
+    const evicted = this.audioBuffers.retain(
+      new Set(soundIds.flatMap(getSoundVariants)),
+    );
+
+    if (evicted.length > 0) {
+      logger.debug(
+        `Released ${evicted.length} audio buffers (${Math.round(this.audioBuffers.bytes / 1048576)} MB still decoded)`,
+      );
+    }
+  }
+
+  /**
+   * Whether a decoded buffer is needed by a playing track or an accent.
+   */
+  private isBufferInUse(soundId: string): boolean {
+    if (this.accents.has(soundId)) return true;
+
+    return [...this.activeTracks.values()].some((track) =>
+      track.variantIds.includes(soundId),
+    );
+  }
+
   /**
    * Load and decode a single audio file into an AudioBuffer.
    *
+   * Returns the cached buffer when there is one, and shares a load already
+   * in flight, so preloading and play() never fetch the same file twice.
+   *
+   * @param soundId - Sound identifier
+   * @returns Promise resolving to AudioBuffer
+   */
+  private loadAudioBuffer(soundId: string): Promise<AudioBuffer | null> {
+    const buffer = this.audioBuffers.get(soundId);
+    if (buffer) {
+      return Promise.resolve(buffer);
+    }
+
+    let load = this.pendingLoads.get(soundId);
+    if (!load) {
+      load = this.fetchAudioBuffer(soundId).finally(() =>
+        this.pendingLoads.delete(soundId),
+      );
+      this.pendingLoads.set(soundId, load);
+    }
+    return load;
+  }
+
+  /**
+   * Fetch and decode a single audio file.
+   *
    * Tries multiple file extensions (.ogg, .mp3, .wav) for browser compatibility.
    * Caches the buffer for reuse. Detects and recovers from AudioContext state errors.
    *
    * @param soundId - Sound identifier
    * @returns Promise resolving to AudioBuffer
    */
-  private async loadAudioBuffer(soundId: string): Promise<AudioBuffer | null> {
+  private async fetchAudioBuffer(soundId: string): Promise<AudioBuffer | null> {
     if (!this.audioContext) {
       throw new Error("AudioContext not initialized");
     }
 
-    // Check if already loaded
-    if (this.audioBuffers.has(soundId)) {
-      return this.audioBuffers.get(soundId)!;
-    }
-
     // Ensure context is active before decoding
     await this.ensureAudioContextActive();
 
@@ -349,7 +547,7 @@ export class AudioManager {
    * @param options - Playback configuration
    *
    * @example
-   * audioManager.play('birds_far', {
+   * audioManager.play('birds-forest_light_far', {
    *   volume: 0.6,
    *   loop: true,
    *   fadeInDuration: 3,
@@ -376,26 +574,44 @@ export class AudioManager {
       return;
     }
 
-    // Load buffer if not already loaded
-    if (!this.audioBuffers.has(soundId)) {
+    // Long beds stream from a media element instead of being decoded
+    const streamed = options.loop && shouldStreamSound(soundId);
+
+    // Sound groups rotate through every take that has loaded
+    const variantIds = getSoundVariants(soundId);
+    const loadedIds = variantIds.filter((id) => this.audioBuffers.has(id));
+
+    // Load buffers if none are loaded yet
+    if (!streamed && loadedIds.length === 0) {
       logger.warn(`Sound not preloaded: ${soundId}. Loading now...`);
-      this.loadAudioBuffer(soundId).then((buffer) => {
-        if (buffer && this.playTokens.get(soundId) === token) {
-          void this.play(soundId, options, token);
-        }
-      });
+      Promise.all(variantIds.map((id) => this.loadAudioBuffer(id))).then(
+        (buffers) => {
+          if (buffers.some(Boolean) && this.playTokens.get(soundId) === token) {
+            void this.play(soundId, options, token);
+          }
+        },
+      );
       return;
     }
 
-    const buffer = this.audioBuffers.get(soundId);
-    if (!buffer) {
-      logger.error(`Failed to get buffer for sound: ${soundId}`);
+    // Takes still loading join the rotation once they're decoded
+    for (const id of streamed ? [] : variantIds) {
+      if (!loadedIds.includes(id) && !this.failedLoads.includes(id)) {
+        void this.loadAudioBuffer(id).catch(() => undefined);
+      }
+    }
+
+    const variantId = streamed
+      ? soundId
+      : loadedIds[Math.floor(Math.random() * loadedIds.length)];
+    const buffer = streamed ? null : (this.audioBuffers.get(variantId) ?? null);
+    if (!streamed && !buffer) {
+      logger.error(`Failed to get buffer for sound: ${variantId}`);
       return;
     }
 
-    // Stop existing track with this ID (if any), unless it's already fading out
-    const existingTrack = this.activeTracks.get(soundId);
-    if (existingTrack && !existingTrack.isFadingOut) {
+    // Crossfade out any existing track with this ID
+    if (this.activeTracks.has(soundId)) {
       this.stop(soundId, options.fadeInDuration || 0, false);
     }
 
@@ -404,27 +620,28 @@ export class AudioManager {
       return;
     }
 
-    // Create source node
-    const source = this.audioContext.createBufferSource();
-    source.buffer = buffer;
+    const category = options.category || "base";
 
-    // Create gain node for individual track volume control
+    // Create gain node for individual track volume control, routed to its
+    // category bus (through a panner when the track has a position)
     const gainNode = this.audioContext.createGain();
-    gainNode.connect(this.masterGainNode);
-
-    // Connect source to gain
-    source.connect(gainNode);
+    const panner = this.createPanner(options);
+    const destination = this.categoryBuses.get(category) ?? this.masterGainNode;
+    if (panner) {
+      gainNode.connect(panner);
+      panner.connect(destination);
+    } else {
+      gainNode.connect(destination);
+    }
 
     // Set initial volume (start at 0 if fading in)
     const startVolume = options.fadeInDuration ? 0 : options.volume;
     gainNode.gain.value = startVolume;
 
     // Start playback with optional delay (minimum 0.02s for Web Audio API stability)
-    const minDelay = 0.02;
     const startTime =
       this.audioContext.currentTime +
-      Math.max(minDelay, options.startDelay || 0);
-    source.start(startTime);
+      Math.max(MIN_START_DELAY, options.startDelay || 0);
 
     // Apply fade-in if requested
     if (options.fadeInDuration && options.fadeInDuration > 0) {
@@ -437,115 +654,331 @@ export class AudioManager {
       );
     }
 
+    // Single files with detected loop points loop natively without
+    // crossfades; groups need a crossfade to switch takes
+    const loopPoints =
+      buffer && options.loop && variantIds.length === 1
+        ? getValidLoopPoints(variantId, buffer)
+        : null;
+
+    // Loop crossfade: 12.5% of the shortest loaded take (2-30 seconds), never
+    // more than half of it so fade-in and fade-out of one iteration can't overlap
+    const shortestDuration = Math.min(
+      ...loadedIds.map((id) => this.audioBuffers.get(id)?.duration ?? Infinity),
+    );
+    const crossfadeDuration =
+      buffer && options.loop && !loopPoints
+        ? Math.min(calculateFadeDuration(shortestDuration), shortestDuration / 2)
+        : 0;
+
     // Store track info
     const track: AudioTrack = {
       soundId,
-      source,
+      variantIds,
+      variantId,
+      buffer,
+      stream: streamed
+        ? this.createStream(soundId, gainNode, startTime)
+        : null,
       gainNode,
+      panner,
+      voices: [],
       volume: options.volume,
       isLooping: options.loop,
-      category: options.category || "base",
+      category,
       startTime: startTime,
-      duration: buffer.duration,
-      isFadingOut: false,
+      duration: buffer?.duration ?? Infinity,
+      normalizationGain: getNormalizationGain(variantId),
+      loopPoints,
+      crossfadeDuration,
+      // Native loops and streams never need a successor
+      nextIterationTime:
+        loopPoints || !buffer
+          ? Infinity
+          : startTime + buffer.duration - crossfadeDuration,
     };
 
     this.activeTracks.set(soundId, track);
 
-    // Schedule loop if enabled
-    if (options.loop) {
-      this.scheduleLoop(soundId, track);
+    if (track.stream) {
+      this.startStream(track, track.stream);
+      return;
     }
 
-    // Handle track end (for non-looping tracks)
-    source.onended = () => {
-      if (!options.loop) {
-        this.activeTracks.delete(soundId);
-        this.loopTimeouts.delete(soundId);
-      }
-    };
+    // First iteration plays at full envelope; the track gain handles fade-in
+    this.scheduleVoice(track, startTime, false);
+
+    // Queue upcoming iterations ahead of time
+    if (options.loop) {
+      this.scheduleLoop(track);
+    }
   }
 
   /**
-   * Schedule seamless loop restart with crossfade.
+   * Schedule a single iteration of a track on the AudioContext clock.
    *
-   * Starts fading in the next iteration before the current one ends,
-   * creating a smooth, gap-free loop. Both fade-out and fade-in use the
-   * same duration to ensure perfect symmetry, which masks any imperfections
-   * in the audio loop points.
+   * Each iteration gets its own envelope gain so loop crossfades never
+   * interfere with the track volume (setVolume, fade-in, fade-out).
+   * The envelope peaks at the file's loudness normalization gain.
+   * Tracks with loop points get a single voice that loops natively.
    *
-   * @param soundId - Sound identifier
-   * @param track - Active track to loop
+   * @param track - Track the iteration belongs to
+   * @param when - AudioContext time to start the iteration
+   * @param crossfadeIn - Whether to fade in under the previous iteration
    */
-  private scheduleLoop(soundId: string, track: AudioTrack): void {
+  private scheduleVoice(
+    track: AudioTrack,
+    when: number,
+    crossfadeIn: boolean,
+  ): void {
     if (!this.audioContext) return;
 
-    // Clear any existing loop timeout
-    const existingTimeout = this.loopTimeouts.get(soundId);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
+    const source = this.audioContext.createBufferSource();
+    source.buffer = track.buffer;
+
+    // Gapless loop: play the intro once, then repeat the loop region
+    if (track.loopPoints) {
+      source.loop = true;
+      source.loopStart = track.loopPoints.start;
+      source.loopEnd = track.loopPoints.end;
     }
 
-    // Calculate when to start the crossfade (12.5% of track length, 2-30 seconds)
-    const fadeDuration = calculateFadeDuration(track.duration);
-    const timeUntilCrossfade =
-      Math.max(0, track.duration - fadeDuration) * 1000;
+    const envelope = this.audioContext.createGain();
+    source.connect(envelope);
+    envelope.connect(track.gainNode);
 
-    logger.debug(
-      `Scheduling loop crossfade for ${soundId}: ${fadeDuration.toFixed(1)}s fade after ${(
-        timeUntilCrossfade / 1000
-      ).toFixed(1)}s`,
-    );
+    const fadeDuration = track.crossfadeDuration;
+    const endTime = track.loopPoints ? Infinity : when + track.duration;
+    const peak = track.normalizationGain;
 
-    // Schedule the crossfade
-    const timeoutId = window.setTimeout(() => {
-      if (!this.activeTracks.has(soundId)) return;
+    if (crossfadeIn) {
+      envelope.gain.setValueAtTime(FADE_EPSILON, when);
+      envelope.gain.exponentialRampToValueAtTime(peak, when + fadeDuration);
+    } else {
+      envelope.gain.setValueAtTime(peak, when);
+    }
 
-      const currentTrack = this.activeTracks.get(soundId)!;
+    // Looping iterations fade out underneath the next one
+    if (track.isLooping && fadeDuration > 0) {
+      envelope.gain.setValueAtTime(peak, endTime - fadeDuration);
+      envelope.gain.exponentialRampToValueAtTime(FADE_EPSILON, endTime);
+    }
 
-      // Mark track as fading out to prevent play() from stopping it prematurely
-      currentTrack.isFadingOut = true;
+    source.start(when);
 
-      // IMPORTANT: Use the same fadeDuration for both fade-out and fade-in
-      // This creates symmetrical crossfade that hides any loop point mismatches
+    const voice: LoopVoice = { source, envelope, startTime: when, endTime };
+    track.voices.push(voice);
+    source.onended = () => this.releaseVoice(track, voice);
+  }
 
-      // Fade out current iteration
-      this.fadeVolume(
-        currentTrack.gainNode,
-        currentTrack.volume,
-        0,
-        fadeDuration,
-      );
+  /**
+   * Create a media element stream for a long bed.
+   *
+   * The file is fetched and decoded progressively instead of being held in
+   * memory as PCM. The element loops natively, so streamed beds don't
+   * crossfade. Its envelope stays silent until the start time, keeping a
+   * start delay on the audio clock.
+   *
+   * @param soundId - Sound identifier
+   * @param destination - Track gain node to feed
+   * @param startTime - AudioContext time the bed becomes audible
+   * @returns Stream voice (not yet playing)
+   */
+  private createStream(
+    soundId: string,
+    destination: GainNode,
+    startTime: number,
+  ): StreamVoice {
+    const context = this.audioContext!;
+
+    // Same format fallbacks as decoding: the browser tries each source in turn
+    const element = new Audio();
+    element.loop = true;
+    element.preload = "auto";
+    for (const path of getAudioPathVariants(soundId)) {
+      const source = document.createElement("source");
+      source.src = path;
+      element.appendChild(source);
+    }
 
-      // Schedule cleanup of old track after fade completes
-      setTimeout(
-        () => {
-          if (currentTrack.source) {
-            try {
-              currentTrack.source.stop();
-            } catch {
-              // Source might already be stopped
-            }
-          }
-        },
-        fadeDuration * 1000 + 100,
+    const source = context.createMediaElementSource(element);
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, context.currentTime);
+    envelope.gain.setValueAtTime(getNormalizationGain(soundId), startTime);
+    source.connect(envelope);
+    envelope.connect(destination);
+
+    return { element, source, envelope };
+  }
+
+  /**
+   * Start a streamed track, dropping it if the element can't play.
+   *
+   * @param track - Streamed track
+   * @param stream - The track's stream voice
+   */
+  private startStream(track: AudioTrack, stream: StreamVoice): void {
+    logger.debug(`[Stream] Streaming ${track.soundId}`);
+
+    stream.element.play().catch((error: unknown) => {
+      logger.error(`[Stream] ✗ Failed to stream ${track.soundId}:`, error);
+      if (this.activeTracks.get(track.soundId) === track) {
+        this.activeTracks.delete(track.soundId);
+      }
+      this.releaseStream(track, stream);
+    });
+  }
+
+  /**
+   * Stop a media element stream and disconnect its track.
+   *
+   * @param track - Streamed track
+   * @param stream - The track's stream voice
+   */
+  private releaseStream(track: AudioTrack, stream: StreamVoice): void {
+    stream.element.pause();
+    // Drop the sources so the browser stops buffering the file
+    stream.element.replaceChildren();
+    stream.element.load();
+
+    stream.source.disconnect();
+    stream.envelope.disconnect();
+    track.gainNode.disconnect();
+    track.panner?.disconnect();
+  }
+
+  /**
+   * Disconnect a finished iteration and clean up its track if it was the last.
+   *
+   * @param track - Track the iteration belongs to
+   * @param voice - Finished iteration
+   */
+  private releaseVoice(track: AudioTrack, voice: LoopVoice): void {
+    const index = track.voices.indexOf(voice);
+    if (index === -1) return;
+
+    track.voices.splice(index, 1);
+    voice.source.disconnect();
+    voice.envelope.disconnect();
+
+    if (track.voices.length > 0) return;
+
+    // Non-looping track played to the end
+    if (this.activeTracks.get(track.soundId) === track) {
+      this.activeTracks.delete(track.soundId);
+    }
+    track.gainNode.disconnect();
+    track.panner?.disconnect();
+  }
+
+  /**
+   * Schedule upcoming loop iterations within the look-ahead window.
+   *
+   * Iterations are started with source.start(when) on the AudioContext clock,
+   * overlapping by the crossfade duration. Both fade-out and fade-in use the
+   * same duration to ensure perfect symmetry, which masks any imperfections
+   * in the audio loop points. Native loops have nothing to schedule.
+   * Because everything is queued well ahead of
+   * time, throttled timers in background tabs can't cause gaps or stacking.
+   *
+   * @param track - Active looping track
+   */
+  private scheduleLoop(track: AudioTrack): void {
+    if (!this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    const horizon = now + LOOKAHEAD_SECONDS;
+
+    while (track.nextIterationTime < horizon) {
+      const when = Math.max(track.nextIterationTime, now + MIN_START_DELAY);
+
+      if (when - track.nextIterationTime > 0.05) {
+        logger.warn(
+          `Loop for ${track.soundId} scheduled ${(when - track.nextIterationTime).toFixed(2)}s late`,
+        );
+      }
+
+      this.selectNextVariant(track);
+      this.scheduleVoice(track, when, true);
+      track.nextIterationTime = when + track.duration - track.crossfadeDuration;
+    }
+  }
+
+  /**
+   * Switch a track to another take of its sound group for the next iteration.
+   *
+   * Picks at random among the loaded takes, never repeating the one that
+   * just played. Takes too short for the track's crossfade are skipped.
+   *
+   * @param track - Active looping track
+   */
+  private selectNextVariant(track: AudioTrack): void {
+    const candidates = track.variantIds.filter((id) => {
+      const buffer = this.audioBuffers.get(id);
+      return (
+        id !== track.variantId &&
+        buffer !== undefined &&
+        buffer.duration >= track.crossfadeDuration * 2
       );
+    });
+    if (candidates.length === 0) return;
 
-      // Remove from active tracks immediately so play() can create new one
-      this.activeTracks.delete(soundId);
+    const variantId = candidates[Math.floor(Math.random() * candidates.length)];
+    const buffer = this.audioBuffers.get(variantId)!;
 
-      // Fade in new iteration (using same fadeDuration for symmetry)
-      this.play(soundId, {
-        volume: currentTrack.volume,
-        loop: true,
-        fadeInDuration: fadeDuration, // ← Same duration as fade-out
-        category: currentTrack.category,
-      });
-    }, timeUntilCrossfade);
+    track.variantId = variantId;
+    track.buffer = buffer;
+    track.duration = buffer.duration;
+    track.normalizationGain = getNormalizationGain(variantId);
+  }
+
+  /**
+   * Start the look-ahead scheduler.
+   *
+   * A coarse interval tops up every looping track's queue. It also runs as
+   * soon as the page becomes visible again, in case the browser froze timers.
+   */
+  private startScheduler(): void {
+    this.stopScheduler();
+    this.schedulerIntervalId = window.setInterval(
+      this.runScheduler,
+      SCHEDULER_INTERVAL_MS,
+    );
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+  }
 
-    this.loopTimeouts.set(soundId, timeoutId);
+  /**
+   * Stop the look-ahead scheduler.
+   */
+  private stopScheduler(): void {
+    if (this.schedulerIntervalId !== null) {
+      clearInterval(this.schedulerIntervalId);
+      this.schedulerIntervalId = null;
+    }
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
   }
 
+  /**
+   * Scheduler tick: keep every looping track and accent queued up to the horizon.
+   */
+  private runScheduler = (): void => {
+    this.activeTracks.forEach((track) => {
+      if (track.isLooping) {
+        this.scheduleLoop(track);
+      }
+    });
+    this.accents.forEach((accent) => this.scheduleAccent(accent));
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === "visible") {
+      this.runScheduler();
+    }
+  };
+
   /**
    * Stop a playing sound with optional fade-out.
    *
@@ -562,29 +995,300 @@ export class AudioManager {
     const track = this.activeTracks.get(soundId);
     if (!track) return;
 
-    // Clear any scheduled loop
-    const loopTimeout = this.loopTimeouts.get(soundId);
-    if (loopTimeout) {
-      clearTimeout(loopTimeout);
-      this.loopTimeouts.delete(soundId);
-    }
+    // Remove immediately so play() can start a fresh track alongside the fade
+    this.activeTracks.delete(soundId);
+
+    if (!this.audioContext) return;
 
     if (fadeOutDuration > 0) {
-      // Fade out, then stop
-      track.isFadingOut = true;
+      // Fade out, then stop on the audio clock
       this.fadeVolume(track.gainNode, track.volume, 0, fadeOutDuration);
-
-      setTimeout(() => {
-        track.source.stop();
-        this.activeTracks.delete(soundId);
-      }, fadeOutDuration * 1000);
+      this.stopVoices(
+        track,
+        this.audioContext.currentTime + fadeOutDuration + 0.01,
+      );
     } else {
       // Immediate stop
-      track.source.stop();
-      this.activeTracks.delete(soundId);
+      this.stopVoices(track, this.audioContext.currentTime);
     }
   }
 
+  /**
+   * Stop every scheduled iteration of a track at the given time.
+   *
+   * Iterations that would only start after the stop time are released
+   * right away instead of waiting for an ended event.
+   *
+   * @param track - Track to stop
+   * @param when - AudioContext time to stop at
+   */
+  private stopVoices(track: AudioTrack, when: number): void {
+    const stream = track.stream;
+    if (stream && this.audioContext) {
+      // Media elements aren't on the audio clock: silence the stream at the
+      // stop time, then release it once that time has passed
+      stream.envelope.gain.setValueAtTime(0, when);
+      const delay = Math.max(0, when - this.audioContext.currentTime);
+      window.setTimeout(() => this.releaseStream(track, stream), delay * 1000);
+    }
+
+    [...track.voices].forEach((voice) => {
+      try {
+        voice.source.stop(when);
+      } catch {
+        // Source might already be stopped
+      }
+
+      if (voice.startTime >= when) {
+        voice.source.onended = null;
+        this.releaseVoice(track, voice);
+      }
+    });
+  }
+
+  /**
+   * Replace the set of procedural accents.
+   *
+   * Accents that remain in the new set are redrawn from now with their new
+   * rate (the process is memoryless, so this doesn't bunch shots up).
+   * Queued shots of removed accents are cancelled; shots already ringing
+   * play out.
+   *
+   * @param specs - Accent definitions (unique by soundId)
+   *
+   * @example
+   * audioManager.setAccents([
+   *   { soundId: 'thunder_light_far', category: 'weather', ratePerMinute: 2, volume: [0.3, 0.6] },
+   * ]);
+   */
+  setAccents(specs: AccentSpec[]): void {
+    if (!this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    const nextIds = new Set<string>(specs.map((spec) => spec.soundId));
+
+    this.accents.forEach((accent, soundId) => {
+      this.cancelAccentShots(accent, now);
+      if (!nextIds.has(soundId)) {
+        this.accents.delete(soundId);
+      }
+    });
+
+    specs.forEach((spec) => {
+      if (spec.ratePerMinute <= 0) {
+        this.accents.delete(spec.soundId);
+        return;
+      }
+
+      const existing = this.accents.get(spec.soundId);
+      const accent: ScheduledAccent = {
+        spec,
+        nextShotTime: now + this.drawAccentInterval(spec),
+        shots: existing?.shots ?? [],
+      };
+      this.accents.set(spec.soundId, accent);
+
+      // Buffers load in the background; the scheduler picks them up once ready
+      if (!this.audioBuffers.has(spec.soundId)) {
+        void this.loadAudioBuffer(spec.soundId).catch(() => undefined);
+      }
+
+      this.scheduleAccent(accent);
+    });
+  }
+
+  /**
+   * Stop every accent, fading out shots that are still ringing.
+   *
+   * @param fadeOutDuration - Fade-out time in seconds
+   */
+  clearAccents(fadeOutDuration = 0): void {
+    if (!this.audioContext) {
+      this.accents.clear();
+      return;
+    }
+
+    const now = this.audioContext.currentTime;
+    this.accents.forEach((accent) => {
+      this.cancelAccentShots(accent, now);
+
+      accent.shots.forEach((shot) => {
+        const gain = shot.envelope.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(0, now + fadeOutDuration + 0.01);
+        try {
+          shot.source.stop(now + fadeOutDuration + 0.02);
+        } catch {
+          // Source might already be stopped
+        }
+      });
+    });
+    this.accents.clear();
+  }
+
+  /**
+   * Queue an accent's shots up to the look-ahead horizon.
+   *
+   * @param accent - Accent to schedule
+   */
+  private scheduleAccent(accent: ScheduledAccent): void {
+    if (!this.audioContext) return;
+
+    const buffer = this.audioBuffers.get(accent.spec.soundId);
+    if (!buffer) return; // Still loading (or failed)
+
+    const now = this.audioContext.currentTime;
+    const horizon = now + LOOKAHEAD_SECONDS;
+
+    while (accent.nextShotTime < horizon) {
+      const when = Math.max(accent.nextShotTime, now + MIN_START_DELAY);
+      this.scheduleAccentShot(accent, buffer, when);
+      accent.nextShotTime = when + this.drawAccentInterval(accent.spec);
+    }
+  }
+
+  /**
+   * Schedule a single accent shot with a random gain, pan and excerpt.
+   *
+   * @param accent - Accent the shot belongs to
+   * @param buffer - Decoded audio buffer
+   * @param when - AudioContext time to start the shot
+   */
+  private scheduleAccentShot(
+    accent: ScheduledAccent,
+    buffer: AudioBuffer,
+    when: number,
+  ): void {
+    if (!this.audioContext) return;
+
+    const { spec } = accent;
+    const destination =
+      this.categoryBuses.get(spec.category) ?? this.masterGainNode;
+    if (!destination) return;
+
+    const duration = Math.min(spec.duration ?? buffer.duration, buffer.duration);
+    const offset = Math.random() * (buffer.duration - duration);
+    const fade = Math.min(spec.fadeDuration ?? ACCENT_FADE_SECONDS, duration / 2);
+    const peak = Math.max(
+      FADE_EPSILON,
+      randomInRange(spec.volume) * getNormalizationGain(spec.soundId),
+    );
+    const endTime = when + duration;
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+
+    const envelope = this.audioContext.createGain();
+    envelope.gain.setValueAtTime(FADE_EPSILON, when);
+    envelope.gain.exponentialRampToValueAtTime(peak, when + fade);
+    envelope.gain.setValueAtTime(peak, endTime - fade);
+    envelope.gain.exponentialRampToValueAtTime(FADE_EPSILON, endTime);
+
+    const panner = this.audioContext.createStereoPanner();
+    panner.pan.value = spec.pan
+      ? Math.max(-1, Math.min(1, randomInRange(spec.pan)))
+      : 0;
+
+    source.connect(envelope);
+    envelope.connect(panner);
+    panner.connect(destination);
+    source.start(when, offset, duration);
+
+    const shot: AccentShot = { source, envelope, panner, startTime: when };
+    accent.shots.push(shot);
+    source.onended = () => this.releaseAccentShot(accent, shot);
+  }
+
+  /**
+   * Cancel shots that haven't started yet.
+   *
+   * @param accent - Accent whose queue to clear
+   * @param now - Current AudioContext time
+   */
+  private cancelAccentShots(accent: ScheduledAccent, now: number): void {
+    [...accent.shots].forEach((shot) => {
+      if (shot.startTime <= now) return;
+
+      shot.source.onended = null;
+      try {
+        shot.source.stop();
+      } catch {
+        // Source might already be stopped
+      }
+      this.releaseAccentShot(accent, shot);
+    });
+  }
+
+  /**
+   * Disconnect a finished accent shot.
+   */
+  private releaseAccentShot(accent: ScheduledAccent, shot: AccentShot): void {
+    const index = accent.shots.indexOf(shot);
+    if (index === -1) return;
+
+    accent.shots.splice(index, 1);
+    shot.source.disconnect();
+    shot.envelope.disconnect();
+    shot.panner.disconnect();
+  }
+
+  /**
+   * Draw the wait until an accent's next shot (exponential distribution).
+   *
+   * @param spec - Accent definition
+   * @returns Interval in seconds
+   */
+  private drawAccentInterval(spec: AccentSpec): number {
+    const meanInterval = 60 / spec.ratePerMinute;
+    const interval = -Math.log(1 - Math.random()) * meanInterval;
+    return Math.max(spec.minInterval ?? 0, interval);
+  }
+
+  /**
+   * Strike a soft bell once, on top of the soundscape.
+   *
+   * Synthesized from a few decaying partials rather than played from a file,
+   * so it needs no download and always sounds the same. Routed past the
+   * category buses, so the mix settings don't hide it.
+   *
+   * @param volume - Bell level (0.0 to 1.0)
+   *
+   * @example
+   * audioManager.playBell(0.3);  // Mark the start of a break
+   */
+  playBell(volume = 0.3): void {
+    if (!this.audioContext || !this.masterGainNode) return;
+
+    const context = this.audioContext;
+    const when = context.currentTime + MIN_START_DELAY;
+
+    const output = context.createGain();
+    output.gain.value = Math.max(0, Math.min(1, volume));
+    output.connect(this.masterGainNode);
+
+    BELL_PARTIALS.forEach(({ ratio, gain, decay }, index) => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = BELL_FREQUENCY * ratio;
+
+      const envelope = context.createGain();
+      envelope.gain.setValueAtTime(FADE_EPSILON, when);
+      envelope.gain.exponentialRampToValueAtTime(gain, when + 0.005);
+      envelope.gain.exponentialRampToValueAtTime(FADE_EPSILON, when + decay);
+
+      oscillator.connect(envelope);
+      envelope.connect(output);
+      oscillator.start(when);
+      oscillator.stop(when + decay);
+      oscillator.onended = () => {
+        oscillator.disconnect();
+        envelope.disconnect();
+        // The fundamental rings longest
+        if (index === 0) output.disconnect();
+      };
+    });
+  }
+
   /**
    * Stop all active sounds with optional fade-out.
    *
@@ -628,6 +1332,134 @@ export class AudioManager {
     track.volume = clampedVolume;
   }
 
+  /**
+   * Move a playing sound to a new position in the stereo/binaural field.
+   *
+   * Positions of the same kind are ramped smoothly. Switching between
+   * centered, stereo-panned and HRTF placement rewires the track instead.
+   *
+   * @param soundId - Sound identifier
+   * @param position - Target pan, azimuth and/or distance
+   * @param rampDuration - Movement time in seconds (0 for immediate)
+   *
+   * @example
+   * audioManager.setPosition('rain_medium', { azimuth: -60 }, 8);  // Drift to the left
+   */
+  setPosition(
+    soundId: string,
+    position: SpatialPosition,
+    rampDuration = 0,
+  ): void {
+    const track = this.activeTracks.get(soundId);
+    if (!track || !this.audioContext) return;
+
+    const wantsHrtf =
+      position.azimuth !== undefined || position.distance !== undefined;
+    const wantsStereo = !wantsHrtf && position.pan !== undefined;
+    const hasHrtf = track.panner instanceof PannerNode;
+    const hasStereo = track.panner instanceof StereoPannerNode;
+
+    if ((wantsHrtf && hasHrtf) || (wantsStereo && hasStereo)) {
+      this.rampPanner(track.panner!, position, rampDuration);
+      return;
+    }
+
+    // Re-centering: glide the existing panner home instead of rewiring
+    if (!wantsHrtf && !wantsStereo && track.panner) {
+      this.rampPanner(track.panner, {}, rampDuration);
+      return;
+    }
+
+    // Placement kind changed: rebuild the track's output stage
+    const destination =
+      this.categoryBuses.get(track.category) ?? this.masterGainNode;
+    if (!destination) return;
+
+    track.gainNode.disconnect();
+    track.panner?.disconnect();
+    track.panner = this.createPanner(position);
+
+    if (track.panner) {
+      track.gainNode.connect(track.panner);
+      track.panner.connect(destination);
+    } else {
+      track.gainNode.connect(destination);
+    }
+  }
+
+  /**
+   * Create the panner node for a spatial position.
+   *
+   * @param position - Requested placement
+   * @returns HRTF PannerNode, StereoPannerNode, or null for centered playback
+   */
+  private createPanner(
+    position: SpatialPosition,
+  ): StereoPannerNode | PannerNode | null {
+    if (!this.audioContext) return null;
+
+    if (position.azimuth !== undefined || position.distance !== undefined) {
+      const panner = this.audioContext.createPanner();
+      panner.panningModel = "HRTF";
+      panner.distanceModel = "inverse";
+      panner.refDistance = 1;
+      panner.maxDistance = 10000;
+      panner.rolloffFactor = 1;
+      this.rampPanner(panner, position, 0);
+      return panner;
+    }
+
+    if (position.pan !== undefined) {
+      const panner = this.audioContext.createStereoPanner();
+      panner.pan.value = Math.max(-1, Math.min(1, position.pan));
+      return panner;
+    }
+
+    return null;
+  }
+
+  /**
+   * Ramp a panner node to a position.
+   *
+   * Azimuth/distance are converted to listener-relative coordinates
+   * (the default listener faces -Z with +X to the right).
+   */
+  private rampPanner(
+    panner: StereoPannerNode | PannerNode,
+    position: SpatialPosition,
+    rampDuration: number,
+  ): void {
+    if (!this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    const end = now + Math.max(0.01, rampDuration);
+
+    const rampParam = (param: AudioParam, value: number) => {
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(value, end);
+    };
+
+    if (panner instanceof StereoPannerNode) {
+      rampParam(panner.pan, Math.max(-1, Math.min(1, position.pan ?? 0)));
+      return;
+    }
+
+    const radians = ((position.azimuth ?? 0) * Math.PI) / 180;
+    const distance = Math.max(0.1, position.distance ?? 1);
+    const x = Math.sin(radians) * distance;
+    const z = -Math.cos(radians) * distance;
+
+    if (panner.positionX) {
+      rampParam(panner.positionX, x);
+      rampParam(panner.positionY, 0);
+      rampParam(panner.positionZ, z);
+    } else {
+      // Older Safari: no AudioParam positions, jump instead
+      panner.setPosition(x, 0, z);
+    }
+  }
+
   /**
    * Set master volume for all sounds.
    *
@@ -643,6 +1475,81 @@ export class AudioManager {
     this.masterGainNode.gain.value = this.isMuted ? 0 : this.masterVolume;
   }
 
+  /**
+   * Set the volume of a category submix bus.
+   *
+   * @param category - Sound category
+   * @param volume - Bus volume level (0.0 to 1.0)
+   * @param fadeDuration - Fade time in seconds (200ms default)
+   *
+   * @example
+   * audioManager.setCategoryVolume('accent', 0.4);  // Turn down accents
+   */
+  setCategoryVolume(
+    category: SoundCategory,
+    volume: number,
+    fadeDuration = 0.2,
+  ): void {
+    this.categoryVolumes[category] = Math.max(0, Math.min(1, volume));
+    this.applyCategoryGain(category, fadeDuration);
+  }
+
+  /**
+   * Mute or unmute a category submix bus.
+   *
+   * @param category - Sound category
+   * @param muted - True to mute the category
+   *
+   * @example
+   * audioManager.muteCategory('weather', true);  // Silence rain and thunder
+   */
+  muteCategory(category: SoundCategory, muted: boolean): void {
+    if (muted) {
+      this.mutedCategories.add(category);
+    } else {
+      this.mutedCategories.delete(category);
+    }
+    this.applyCategoryGain(category, 0.3);
+  }
+
+  /**
+   * Solo a category, silencing every other category bus.
+   *
+   * @param category - Category to solo, or null to clear the solo
+   *
+   * @example
+   * audioManager.soloCategory('base');  // Hear only the biome bed
+   * audioManager.soloCategory(null);    // Back to the full mix
+   */
+  soloCategory(category: SoundCategory | null): void {
+    this.soloedCategory = category;
+    SOUND_CATEGORIES.forEach((c) => this.applyCategoryGain(c, 0.3));
+  }
+
+  /**
+   * Resolve the gain a category bus should have after mute and solo.
+   */
+  private getEffectiveCategoryGain(category: SoundCategory): number {
+    if (this.mutedCategories.has(category)) return 0;
+    if (this.soloedCategory && this.soloedCategory !== category) return 0;
+    return this.categoryVolumes[category];
+  }
+
+  /**
+   * Ramp a category bus to its effective gain.
+   */
+  private applyCategoryGain(category: SoundCategory, fadeDuration: number): void {
+    const bus = this.categoryBuses.get(category);
+    if (!bus) return;
+
+    const target = this.getEffectiveCategoryGain(category);
+    if (fadeDuration > 0) {
+      this.fadeVolume(bus, bus.gain.value, target, fadeDuration);
+    } else {
+      bus.gain.value = target;
+    }
+  }
+
   /**
    * Toggle mute state with fast fade.
    *
@@ -663,6 +1570,47 @@ export class AudioManager {
     return this.isMuted;
   }
 
+  /**
+   * Fade the whole mix towards silence or back to full level for sleep.
+   *
+   * Follows a raised-cosine curve: changes slowly at first, fastest halfway
+   * and settles gently, which suits fades lasting tens of minutes. The curve
+   * runs on the audio clock, so it keeps going while the tab is in the
+   * background and its timers are throttled.
+   *
+   * @param target - Sleep gain to reach (0 = silent, 1 = full level)
+   * @param duration - Fade time in seconds
+   *
+   * @example
+   * audioManager.fadeSleepGain(0, 30 * 60);  // Drift off over 30 minutes
+   * audioManager.fadeSleepGain(1, 5 * 60);   // Wake up over 5 minutes
+   */
+  fadeSleepGain(target: number, duration: number): void {
+    if (!this.audioContext || !this.sleepGainNode) return;
+
+    const gain = this.sleepGainNode.gain;
+    const now = this.audioContext.currentTime;
+    const from = gain.value;
+    const to = Math.max(0, Math.min(1, target));
+
+    // Hold the current level, in case a previous fade is still running
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(from, now);
+
+    if (duration <= 0 || from === to) {
+      gain.setValueAtTime(to, now);
+      return;
+    }
+
+    const curve = new Float32Array(SLEEP_CURVE_POINTS);
+    for (let i = 0; i < curve.length; i++) {
+      const progress = i / (curve.length - 1);
+      const remaining = Math.cos((progress * Math.PI) / 2) ** 2;
+      curve[i] = to + (from - to) * remaining;
+    }
+    gain.setValueCurveAtTime(curve, now + 0.01, duration);
+  }
+
   /**
    * Set inside mode (muffled audio effect via low-pass filter).
    *
@@ -695,16 +1643,47 @@ export class AudioManager {
     );
   }
 
+  /**
+   * Set the weather damping applied to the whole mix.
+   *
+   * A high-shelf cut above 3 kHz: snow cover absorbs high frequencies,
+   * so a snowy scene sounds softer and closer. Independent of inside mode.
+   *
+   * @param gainDb - Shelf gain in dB (0 = flat, negative = damped, min -24)
+   * @param transitionDuration - Transition time in seconds
+   *
+   * @example
+   * audioManager.setWeatherDamping(-9, 6);  // Heavy snowfall
+   */
+  setWeatherDamping(gainDb: number, transitionDuration = 4): void {
+    this.weatherDampingDb = Math.max(-24, Math.min(0, gainDb));
+    if (!this.audioContext || !this.weatherFilterNode) return;
+
+    const gain = this.weatherFilterNode.gain;
+    const now = this.audioContext.currentTime;
+
+    // Gain is in dB, so a linear ramp already follows the ear
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(
+      this.weatherDampingDb,
+      now + Math.max(0.01, transitionDuration),
+    );
+  }
+
   /**
    * Set the filter frequency for inside mode.
    *
-   * @param frequency - Filter frequency in Hz (200-2000 range recommended)
+   * @param frequency - Filter frequency in Hz (clamped to 200-2000)
    *
    * @example
    * audioManager.setInsideFilterFrequency(800);  // More muffled
    */
   setInsideFilterFrequency(frequency: number): void {
-    this.insideFilterFrequency = Math.max(200, Math.min(2000, frequency));
+    this.insideFilterFrequency = Math.max(
+      MIN_INSIDE_FILTER_FREQUENCY,
+      Math.min(MAX_INSIDE_FILTER_FREQUENCY, frequency),
+    );
 
     // If inside mode is active, update filter with smooth ramp to avoid clicks
     if (this.isInsideMode && this.lowpassFilterNode && this.audioContext) {
@@ -755,7 +1734,7 @@ export class AudioManager {
     gainNode.gain.cancelScheduledValues(now);
 
     // Use exponential ramp (avoid 0 value issues with epsilon)
-    const epsilon = 0.001;
+    const epsilon = FADE_EPSILON;
     const safeStart = Math.max(epsilon, startVolume);
     const safeEnd = Math.max(epsilon, endVolume);
 
@@ -790,9 +1769,29 @@ export class AudioManager {
       masterVolume: this.masterVolume,
       activeTrackCount: this.activeTracks.size,
       failedLoads: [...this.failedLoads],
+      categories: this.getCategoryStates(),
     };
   }
 
+  /**
+   * Get level, mute and solo state of every category bus.
+   *
+   * @returns Mix state keyed by category
+   */
+  getCategoryStates(): Record<SoundCategory, CategoryMixState> {
+    return SOUND_CATEGORIES.reduce(
+      (states, category) => {
+        states[category] = {
+          volume: this.categoryVolumes[category],
+          muted: this.mutedCategories.has(category),
+          soloed: this.soloedCategory === category,
+        };
+        return states;
+      },
+      {} as Record<SoundCategory, CategoryMixState>,
+    );
+  }
+
   /**
    * Get list of currently playing sound IDs.
    *
@@ -829,12 +1828,12 @@ export class AudioManager {
    * audioManager.dispose();
    */
   dispose(): void {
-    // Stop all tracks
+    // Stop all tracks and accents
     this.stopAll(0);
+    this.clearAccents(0);
 
-    // Clear all timeouts
-    this.loopTimeouts.forEach((timeoutId) => clearTimeout(timeoutId));
-    this.loopTimeouts.clear();
+    // Stop the loop scheduler
+    this.stopScheduler();
 
     // Close audio context
     if (this.audioContext && this.audioContext.state !== "closed") {
@@ -844,15 +1843,46 @@ export class AudioManager {
     // Clear references
     this.audioContext = null;
     this.masterGainNode = null;
+    this.sleepGainNode = null;
     this.lowpassFilterNode = null;
+    this.weatherFilterNode = null;
+    this.categoryBuses.clear();
     this.activeTracks.clear();
     this.audioBuffers.clear();
+    this.pendingLoads.clear();
     this.playTokens.clear();
     this.isInitialized = false;
     this.preloadComplete = false;
   }
 }
 
+/**
+ * Pick a uniform random value within a [min, max] range.
+ */
+function randomInRange([min, max]: [number, number]): number {
+  return min + Math.random() * (max - min);
+}
+
+/**
+ * Loop points of a sound that fit its decoded buffer, or null to crossfade.
+ * Guards against a manifest entry that is stale for the file being played.
+ */
+function getValidLoopPoints(
+  soundId: string,
+  buffer: AudioBuffer,
+): LoopPoints | null {
+  const loopPoints = getLoopPoints(soundId);
+  if (!loopPoints) return null;
+
+  const { start, end } = loopPoints;
+  if (start < 0 || end <= start || end > buffer.duration + 0.01) {
+    logger.warn(`Ignoring loop points of ${soundId} outside its buffer`);
+    return null;
+  }
+
+  return { start, end: Math.min(end, buffer.duration) };
+}
+
 // Export singleton instance for convenience
 let audioManagerInstance: AudioManager | null = null;
 
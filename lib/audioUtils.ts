@@ -5,107 +5,49 @@
  * weather intensity analysis, and volume curve generation.
  */
 
-import type { WeatherIntensity } from '@/types/audio';
+import type {
+  LoopPoints,
+  SoundAsset,
+  SoundCategory,
+  SoundId,
+  WeatherIntensity,
+} from '@/types/audio';
+import soundManifest from './data/soundManifest.json';
 
 /**
- * Map of sound IDs to their file paths WITH extensions.
- * Built by scanning the public/audio directory structure.
- *
- * Format: soundId → full path from /audio/ with extension
- * This avoids 404 errors by directly specifying the correct file extension.
+ * All sound categories, in mixer display order.
+ * Each category has its own submix bus in the AudioManager.
  */
-const SOUND_PATH_MAP: Record<string, string> = {
-  // Animals
-  birds_far: 'animals/animals-birds-far-01.ogg',
-  'birds-forest_light_far': 'animals/animals-birds-forest-light-far-01.ogg',
-  frogs_close: 'animals/animals-frogs-close-01.ogg',
-  'wind-light_birds_medium': 'animals/animals-wind-light-birds-medium-01.ogg',
-  cicada_heavy: 'animals/animals-cicada-heavy-01.ogg',
-  'wind-leaves_rustling-light_birds_light':
-    'animals/animals-wind-leaves-rustling-light-birds-light-01.ogg',
-  'wind-leaves_rustling-light_birds_light-2':
-    'animals/animals-wind-leaves-rustling-light-birds-light-02.ogg',
-  'wind-leaves_rustling-light_birds_light-3':
-    'animals/animals-wind-leaves-rustling-light-birds-light-03.ogg',
-  'wind-leaves_rustling-light_birds_medium':
-    'animals/animals-wind-leaves-rustling-light-birds-medium-01.ogg',
-
-  // City
-  'cars-passing_low_far': 'city/city-cars-passing-low-far-01.ogg',
-  'cars-passing_medium_close': 'city/city-cars-passing-medium-close-01.ogg',
-  'chatter-footsteps_medium': 'city/city-chatter-footsteps-medium-01.ogg',
-  'church-bells_medium_far': 'city/city-church-bells-medium-far-01.ogg',
-  'rain-wind-city-traffic_medium_far': 'city/city-rain-wind-city-traffic-medium-far-01.ogg',
-  traffic_medium_close: 'city/city-traffic-medium-close-01.ogg',
-  traffic_medium_far: 'city/city-traffic-medium-far-01.ogg',
-  'plane_overhead-light': 'city/city-plane-overhead-light-01.ogg',
-
-  // Desert
-  'desert-wind_light': 'desert/desert-wind-light-01.ogg',
-  'desert-cricket_heavy_close': 'desert/desert-cricket-heavy-close.ogg',
-  'desert-birds_bugs_light': 'desert/desert-birds-medium-bugs-light.ogg',
-
-  // Thunder
-  thunder_light_far: 'thunder/thunder-light-far-01.ogg',
-  thunder_medium_close: 'thunder/thunder-medium-close-01.ogg',
-  thunder_light_far_rain_medium: 'thunder/thunder-light-far-rain-medium-01.ogg',
-  thunder_rolling_light_far: 'thunder/thunder-rolling-light-far-rain-light-01.ogg',
-
-  // Water
-  'drops-bucket-collecting-drips_light_close':
-    'water/water-drops-bucket-collecting-drips-light-close-01.ogg',
-  rain_light: 'water/water-rain-light-01.ogg',
-  rain_medium: 'water/water-rain-medium-01.ogg',
-  rain_medium_close: 'water/water-rain-medium-close-01.ogg',
-  stream_light_close: 'water/water-stream-light-close-01.ogg',
-  stream_medium: 'water/water-stream-medium-01.ogg',
-  waterfall_light: 'water/water-waterfall-light-01.ogg',
-  waterfall_medium: 'water/water-waterfall-medium-01.ogg',
-  waves_light_close: 'water/water-waves-light-close-01.ogg',
-  waves_light_far: 'water/water-waves-light-far-01.ogg',
-  waves_medium_close: 'water/water-waves-medium-close-01.ogg',
-  waves_medium_close_2: 'water/water-waves-medium-close-02.ogg',
-  waves_medium_far: 'water/water-waves-medium-far-01.ogg',
-  waves_small_close: 'water/water-waves-small-close-01.ogg',
-  'wind-leaves_rustling-medium_rain_light':
-    'water/water-wind-leaves-rustling-medium-rain-light-01.ogg',
-  'wind-leaves_rustling-medium_rain_medium':
-    'water/water-wind-leaves-rustling-medium-rain-medium-01.ogg',
-
-  // Wind
-  wind_autumn: 'wind/wind-autumn-01.ogg',
-  wind_coastal_birds: 'wind/wind-coastal-birds-01.ogg',
-  wind_coastal_medium_far: 'wind/wind-coastal-medium-far-01.ogg',
-  wind_field_strong: 'wind/wind-field-strong-01.ogg',
-  wind_forest_medium: 'wind/wind-forest-medium-01.ogg',
-  wind_grass_strong: 'wind/wind-grass-strong-01.ogg',
-  'wind-leaves_rustling-heavy': 'wind/wind-leaves-rustling-heavy-01.ogg',
-  'wind-leaves_rustling-heavy-2': 'wind/wind-leaves-rustling-heavy-02.ogg',
-  'wind-leaves_rustling-heavy-3': 'wind/wind-leaves-rustling-heavy-03.ogg',
-  'wind-leaves_rustling-heavy_storm': 'wind/wind-leaves-rustling-heavy-storm-01.ogg',
-  'wind-leaves_rustling-medium': 'wind/wind-leaves-rustling-medium-01.ogg',
-
-  // Other
-  fan_close: 'other/other-fan-close-01.ogg',
-  windchimes_close: 'other/other-windchimes-close-01.ogg',
-};
+export const SOUND_CATEGORIES: SoundCategory[] = ['base', 'weather', 'accent'];
+
+/**
+ * Inside mode low-pass filter range (Hz).
+ */
+export const MIN_INSIDE_FILTER_FREQUENCY = 200;
+export const MAX_INSIDE_FILTER_FREQUENCY = 2000;
+
+/**
+ * Generated asset manifest: sound ID → file path and metadata.
+ * Built from public/audio by scripts/generateSoundManifest.ts.
+ */
+const SOUND_MANIFEST: Record<SoundId, SoundAsset> = soundManifest;
+
 /**
  * Gets the full audio file path for a sound ID.
  *
- * @param soundId - Sound identifier (e.g., "birds_far", "rain_medium")
- * @returns Full path to audio file (e.g., "/audio/animals/birds_far.ogg")
+ * @param soundId - Sound identifier (e.g., "cicada_heavy", "rain_medium")
+ * @returns Full path to audio file (e.g., "/audio/animals/animals-cicada-heavy-01.ogg")
  * @throws Error if sound ID is not found in mapping
  *
  * @example
- * getAudioPath("birds_far")  // → "/audio/animals/birds_far.ogg"
- * getAudioPath("rain_light") // → "/audio/water/rain_light.ogg"
+ * getAudioPath("cicada_heavy") // → "/audio/animals/animals-cicada-heavy-01.ogg"
+ * getAudioPath("rain_light")   // → "/audio/water/water-rain-light-01.ogg"
  */
 export function getAudioPath(soundId: string): string {
-  const pathWithExtension = SOUND_PATH_MAP[soundId];
-
-  if (!pathWithExtension) {
+  if (!soundExists(soundId)) {
     throw new Error(`Unknown sound ID: ${soundId}`);
   }
+  const pathWithExtension = SOUND_MANIFEST[soundId].path;
 
   // Path already includes the correct extension
   return `/audio/${pathWithExtension}`;
@@ -119,15 +61,14 @@ export function getAudioPath(soundId: string): string {
  * @returns Array of paths - first is the correct extension, rest are fallbacks
  *
  * @example
- * getAudioPathVariants("birds_far")
- * // → ["/audio/animals/birds_far.ogg", "/audio/animals/birds_far.mp3", "/audio/animals/birds_far.wav"]
+ * getAudioPathVariants("cicada_heavy")
+ * // → ["/audio/animals/animals-cicada-heavy-01.ogg", ".../animals-cicada-heavy-01.mp3", ".../animals-cicada-heavy-01.wav"]
  */
 export function getAudioPathVariants(soundId: string): string[] {
-  const pathWithExtension = SOUND_PATH_MAP[soundId];
-
-  if (!pathWithExtension) {
+  if (!soundExists(soundId)) {
     throw new Error(`Unknown sound ID: ${soundId}`);
   }
+  const pathWithExtension = SOUND_MANIFEST[soundId].path;
 
   // Return the correct path first, then fallback to other extensions
   const correctPath = `/audio/${pathWithExtension}`;
@@ -142,6 +83,96 @@ export function getAudioPathVariants(soundId: string): string[] {
   return uniquePaths;
 }
 
+/**
+ * Gets the loudness normalization gain for a sound.
+ *
+ * Multiplying by this gain brings the file to the manifest's target
+ * loudness, so equal layer volumes sound equally loud across files.
+ *
+ * @param soundId - Sound identifier
+ * @returns Linear gain (1 for unmeasured or unknown sounds)
+ *
+ * @example
+ * getNormalizationGain('desert-cricket_heavy_close')  // gainDb -6.4 → ~0.48
+ */
+export function getNormalizationGain(soundId: string): number {
+  if (!soundExists(soundId)) return 1;
+  return Math.pow(10, SOUND_MANIFEST[soundId].gainDb / 20);
+}
+
+/**
+ * Looping beds at least this long stream instead of being fully decoded (seconds).
+ */
+const STREAMING_MIN_DURATION = 120;
+
+/**
+ * Checks whether a looping sound should stream from a media element.
+ *
+ * Decoded PCM of multi-minute beds takes tens of megabytes each, too much to
+ * hold for every layer on phones. Variant groups and files with loop points
+ * stay decoded, since they rely on buffer playback to switch takes or loop
+ * gaplessly.
+ *
+ * @param soundId - Sound identifier
+ * @returns True for long single-take beds
+ *
+ * @example
+ * shouldStreamSound('chatter-footsteps_medium')  // 449s → true
+ * shouldStreamSound('cicada_heavy')              // 14s → false
+ */
+export function shouldStreamSound(soundId: string): boolean {
+  if (!soundExists(soundId)) return false;
+
+  const { duration, variants, loopEnd } = SOUND_MANIFEST[soundId];
+  return (
+    duration !== null &&
+    duration >= STREAMING_MIN_DURATION &&
+    variants === undefined &&
+    loopEnd === undefined
+  );
+}
+
+/**
+ * Gets every recording in a sound's variant group.
+ *
+ * Numbered takes of one recording are grouped under the first take; looping
+ * it rotates through all of them. Other sounds are their own only variant.
+ *
+ * @param soundId - Sound identifier
+ * @returns Sound IDs of the group, starting with the first take
+ *
+ * @example
+ * getSoundVariants('wind-leaves_rustling-heavy-2')
+ * // → ['wind-leaves_rustling-heavy-2', 'wind-leaves_rustling-heavy-3']
+ */
+export function getSoundVariants(soundId: string): string[] {
+  if (!soundExists(soundId)) return [soundId];
+
+  const variants = SOUND_MANIFEST[soundId].variants?.filter(soundExists);
+  return variants && variants.length > 0 ? variants : [soundId];
+}
+
+/**
+ * Gets the seamless loop points of a sound, if they were detected.
+ *
+ * Sounds with loop points loop natively (gapless) instead of crossfading
+ * between iterations.
+ *
+ * @param soundId - Sound identifier
+ * @returns Loop region in seconds, or null to crossfade
+ *
+ * @example
+ * getLoopPoints('rain_light')  // → { start: 0.412, end: 175.02 } or null
+ */
+export function getLoopPoints(soundId: string): LoopPoints | null {
+  if (!soundExists(soundId)) return null;
+
+  const { loopStart, loopEnd } = SOUND_MANIFEST[soundId];
+  if (loopStart === undefined || loopEnd === undefined) return null;
+
+  return { start: loopStart, end: loopEnd };
+}
+
 /**
  * Calculates optimal fade duration based on track length.
  *
@@ -166,6 +197,19 @@ export function calculateFadeDuration(trackLengthSeconds: number): number {
   return Math.max(2, Math.min(30, baseFade));
 }
 
+/**
+ * Snowfall intensity per WMO snow code.
+ * 71/73/75: slight/moderate/heavy, 77: snow grains, 85/86: slight/heavy showers.
+ */
+const SNOWFALL_BY_CODE: Record<number, number> = {
+  71: 0.3,
+  73: 0.6,
+  75: 0.9,
+  77: 0.2,
+  85: 0.4,
+  86: 0.8,
+};
+
 /**
  * Maps WMO weather code to weather intensity metrics.
  *
@@ -185,6 +229,7 @@ export function calculateFadeDuration(trackLengthSeconds: number): number {
  *
  * @example
  * mapWeatherToIntensity(61)  // Light rain → { rain: 0.3, thunder: 0, ... }
+ * mapWeatherToIntensity(75)  // Heavy snow → { rain: 0, snowfall: 0.9, snow: true, ... }
  * mapWeatherToIntensity(95)  // Thunderstorm → { rain: 0.7, thunder: 0.8, ... }
  */
 export function mapWeatherToIntensity(weatherCode: number): WeatherIntensity {
@@ -192,6 +237,7 @@ export function mapWeatherToIntensity(weatherCode: number): WeatherIntensity {
     rain: 0,
     thunder: 0,
     snow: false,
+    snowfall: 0,
     fog: false,
     hasPrecipitation: false,
   };
@@ -217,8 +263,7 @@ export function mapWeatherToIntensity(weatherCode: number): WeatherIntensity {
   if ((weatherCode >= 71 && weatherCode <= 77) || weatherCode === 85 || weatherCode === 86) {
     intensity.snow = true;
     intensity.hasPrecipitation = true;
-    // Snow sounds similar to light rain in ambient audio
-    intensity.rain = 0.3;
+    intensity.snowfall = SNOWFALL_BY_CODE[weatherCode] ?? 0.5;
   }
 
   // Rain shower codes (80-82)
@@ -309,8 +354,8 @@ export function generateExponentialCurve(
  * @returns Formatted display name
  *
  * @example
- * formatSoundName("birds_far")  // → "Birds (Far)"
- * formatSoundName("rain_medium")  // → "Rain (Medium)"
+ * formatSoundName("cicada_heavy")  // → "Cicada Heavy"
+ * formatSoundName("rain_medium")   // → "Rain Medium"
  */
 export function formatSoundName(soundId: string): string {
   return soundId
@@ -325,8 +370,8 @@ export function formatSoundName(soundId: string): string {
  *
  * @returns Array of all registered sound IDs
  */
-export function getAllSoundIds(): string[] {
-  return Object.keys(SOUND_PATH_MAP);
+export function getAllSoundIds(): SoundId[] {
+  return Object.keys(SOUND_MANIFEST) as SoundId[];
 }
 
 /**
@@ -335,8 +380,21 @@ export function getAllSoundIds(): string[] {
  * @param soundId - Sound identifier to check
  * @returns True if sound exists
  */
-export function soundExists(soundId: string): boolean {
-  return soundId in SOUND_PATH_MAP;
+export function soundExists(soundId: string): soundId is SoundId {
+  return Object.prototype.hasOwnProperty.call(SOUND_MANIFEST, soundId);
+}
+
+/**
+ * Gets the manifest entry (path and metadata) for a sound.
+ *
+ * @param soundId - Sound identifier
+ * @returns Asset metadata
+ *
+ * @example
+ * getSoundAsset('rain_light').duration  // → 176.119
+ */
+export function getSoundAsset(soundId: SoundId): SoundAsset {
+  return SOUND_MANIFEST[soundId];
 }
 
 
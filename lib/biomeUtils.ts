@@ -1,5 +1,6 @@
 import { BiomeType } from "./biomeDetector";
 import { BIOME_IMAGE_COUNTS, BIOME_FALLBACKS } from "./imageMapping";
+import type { DayPhase } from "./solar";
 
 export type TimeOfDay = "day" | "evening" | "night";
 
@@ -10,7 +11,7 @@ export type TimeOfDay = "day" | "evening" | "night";
  * @param str - String to hash
  * @returns 32-bit integer hash
  */
-function simpleHash(str: string): number {
+export function simpleHash(str: string): number {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
@@ -27,7 +28,7 @@ function simpleHash(str: string): number {
  * @param seed - Integer seed value
  * @returns Pseudo-random float between 0 and 1
  */
-function seededRandom(seed: number): number {
+export function seededRandom(seed: number): number {
   // Linear Congruential Generator constants (same as glibc)
   const a = 1103515245;
   const c = 12345;
@@ -66,6 +67,63 @@ export function getTimeOfDay(localtime: string): TimeOfDay {
   }
 }
 
+/**
+ * Maps a solar day phase to the time-of-day slot used for backgrounds
+ * and soundscape rules.
+ *
+ * Dawn is the rising sun (before solar noon), so it starts the day slot
+ * with morning birds. The setting low sun (golden hour, twilight) is the
+ * warm "evening" slot with its insects and dusk backgrounds.
+ *
+ * @param phase - Solar day phase (see lib/solar.ts)
+ * @returns Time of day classification
+ *
+ * @example
+ * getTimeOfDayFromPhase("dawn")        // "day"
+ * getTimeOfDayFromPhase("golden-hour") // "evening"
+ */
+export function getTimeOfDayFromPhase(phase: DayPhase): TimeOfDay {
+  switch (phase) {
+    case "dawn":
+    case "day":
+      return "day";
+    case "night":
+      return "night";
+    default:
+      return "evening";
+  }
+}
+
+/**
+ * Gets a deterministic soundscape seed for a location and moment.
+ *
+ * The seed only changes when the location (~1km), the local date or the
+ * solar day phase changes, so weather refreshes within a session keep
+ * the same random choices (birds, crickets, frogs).
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @param localtime - ISO 8601 local timestamp (e.g., "2025-10-31T14:30")
+ * @param slot - Solar day phase at that time (time-of-day slot when unknown)
+ * @returns 32-bit integer seed
+ *
+ * @example
+ * getSoundscapeSeed(40.7128, -74.006, "2025-10-31T14:30", "day")
+ * // Same value for every refresh in NYC until golden hour begins
+ */
+export function getSoundscapeSeed(
+  lat: number,
+  lon: number,
+  localtime: string,
+  slot: DayPhase | TimeOfDay
+): number {
+  const roundedLat = Math.round(lat * 100) / 100;
+  const roundedLon = Math.round(lon * 100) / 100;
+  const date = localtime.slice(0, 10);
+
+  return simpleHash(`${roundedLat},${roundedLon},${date},${slot}`);
+}
+
 function hasImagesForBiome(biome: BiomeType): boolean {
   const counts = BIOME_IMAGE_COUNTS[biome];
   if (!counts) return false;
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  MAX_FAVOURITES,
+  createFavourite,
+  getFavouriteId,
+  loadFavourites,
+  saveFavourites,
+  type FavouritePlace,
+} from "./favourites";
+import type { WeatherData } from "@/types/weather";
+
+const storage = new Map<string, string>();
+
+Object.defineProperty(globalThis, "window", {
+  configurable: true,
+  value: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    },
+  },
+});
+
+const kyotoWithoutMix: FavouritePlace = {
+  id: "35.01,135.77",
+  name: "Kyoto",
+  region: "Kyoto",
+  country: "Japan",
+  lat: 35.0116,
+  lon: 135.7681,
+  biome: "city",
+};
+
+const kyoto: FavouritePlace = {
+  ...kyotoWithoutMix,
+  mix: { "cars-passing_low_far": { volume: 0.3, muted: false } },
+};
+
+const storeRaw = (value: unknown) =>
+  storage.set("hearaway_favourites", JSON.stringify(value));
+
+describe("favourites", () => {
+  beforeEach(() => storage.clear());
+
+  it("round-trips saved places, keeping at most one per number key", () => {
+    const places = Array.from({ length: MAX_FAVOURITES + 2 }, (_, index) => ({
+      ...kyoto,
+      id: String(index),
+    }));
+    saveFavourites(places);
+
+    assert.deepEqual(loadFavourites(), places.slice(0, MAX_FAVOURITES));
+  });
+
+  it("skips entries with fields of the wrong type", () => {
+    storeRaw([
+      kyoto,
+      null,
+      "Kyoto",
+      { ...kyoto, lat: undefined },
+      { ...kyoto, lon: "135.77" },
+      { ...kyoto, name: 42 },
+      { ...kyoto, biome: "moon" },
+      { ...kyoto, mix: [] },
+      { ...kyoto, mix: { rain_light: { volume: "loud" } } },
+      { ...kyoto, mix: { rain_light: { muted: 1 } } },
+      kyotoWithoutMix,
+    ]);
+
+    assert.deepEqual(loadFavourites(), [kyoto, kyotoWithoutMix]);
+  });
+
+  it("treats corrupt storage as no favourites", () => {
+    storage.set("hearaway_favourites", "{not json");
+    assert.deepEqual(loadFavourites(), []);
+
+    storeRaw({ kyoto });
+    assert.deepEqual(loadFavourites(), []);
+  });
+
+  it("builds a favourite from the weather, omitting an empty mix", () => {
+    const weatherData = {
+      location: { name: "Kyoto", region: "Kyoto", country: "Japan" },
+      biome: { type: "city", coordinates: { lat: 35.0116, lon: 135.7681 } },
+    } as WeatherData;
+
+    assert.deepEqual(createFavourite(weatherData, {}), {
+      id: getFavouriteId(35.0116, 135.7681),
+      name: "Kyoto",
+      region: "Kyoto",
+      country: "Japan",
+      lat: 35.0116,
+      lon: 135.7681,
+      biome: "city",
+    });
+  });
+});
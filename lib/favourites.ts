@@ -0,0 +1,156 @@
+/**
+ * Saved places (favourites).
+ *
+ * Users can save the place they're listening to, optionally with the layer
+ * mix they set for it, and switch back later from the favourites tray or
+ * with the 1–9 keys. Stored in localStorage, most recently saved last.
+ */
+
+import type { BiomeType } from "./biomeDetector";
+import type { LayerOverrides } from "@/types/audio";
+import type { WeatherData } from "@/types/weather";
+
+const FAVOURITES_STORAGE_KEY = "hearaway_favourites";
+
+/** Places that can be saved (one per number key) */
+export const MAX_FAVOURITES = 9;
+
+/**
+ * A saved place.
+ */
+export interface FavouritePlace {
+  /** Stable key derived from the coordinates */
+  id: string;
+
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+
+  /** Biome at the time of saving (for the tray and the mix) */
+  biome: BiomeType;
+
+  /** Layer overrides restored when switching to the place */
+  mix?: LayerOverrides;
+}
+
+/**
+ * Key identifying a place by its coordinates (~1 km), so the same place
+ * found through different searches is saved once.
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns Place key
+ */
+export function getFavouriteId(lat: number, lon: number): string {
+  return `${lat.toFixed(2)},${lon.toFixed(2)}`;
+}
+
+/**
+ * Build a favourite from the weather of the current place.
+ *
+ * @param weatherData - Weather data of the place
+ * @param mix - Layer overrides to keep with the place (omitted when empty)
+ * @returns Favourite entry
+ */
+export function createFavourite(
+  weatherData: WeatherData,
+  mix?: LayerOverrides,
+): FavouritePlace {
+  const { lat, lon } = weatherData.biome.coordinates;
+  const { name, region, country } = weatherData.location;
+
+  return {
+    id: getFavouriteId(lat, lon),
+    name,
+    region,
+    country,
+    lat,
+    lon,
+    biome: weatherData.biome.type,
+    ...(mix && Object.keys(mix).length > 0 && { mix }),
+  };
+}
+
+const BIOME_TYPES: ReadonlySet<string> = new Set<BiomeType>([
+  "ocean",
+  "lake",
+  "beach",
+  "desert",
+  "field",
+  "forest",
+  "city",
+]);
+
+function isLayerOverrides(value: unknown): value is LayerOverrides {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  return Object.values(value).every(
+    (override: unknown) =>
+      typeof override === "object" &&
+      override !== null &&
+      (!("volume" in override) || Number.isFinite(override.volume)) &&
+      (!("muted" in override) || typeof override.muted === "boolean"),
+  );
+}
+
+/**
+ * Check that a stored entry has every field of a saved place with the right
+ * type, so one edited or outdated entry can't break the tray.
+ */
+function isFavouritePlace(value: unknown): value is FavouritePlace {
+  if (typeof value !== "object" || value === null) return false;
+
+  const place = value as Record<string, unknown>;
+  return (
+    typeof place.id === "string" &&
+    typeof place.name === "string" &&
+    typeof place.region === "string" &&
+    typeof place.country === "string" &&
+    Number.isFinite(place.lat) &&
+    Number.isFinite(place.lon) &&
+    typeof place.biome === "string" &&
+    BIOME_TYPES.has(place.biome) &&
+    (place.mix === undefined || isLayerOverrides(place.mix))
+  );
+}
+
+/**
+ * Read saved places from localStorage.
+ *
+ * @returns Saved places, oldest first (malformed entries are skipped)
+ */
+export function loadFavourites(): FavouritePlace[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(FAVOURITES_STORAGE_KEY);
+    const favourites: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(favourites)
+      ? favourites.filter(isFavouritePlace).slice(0, MAX_FAVOURITES)
+      : [];
+  } catch {
+    return []; // Corrupt or unavailable storage behaves like no favourites
+  }
+}
+
+/**
+ * Persist saved places.
+ *
+ * @param favourites - Saved places, oldest first
+ */
+export function saveFavourites(favourites: FavouritePlace[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(
+      FAVOURITES_STORAGE_KEY,
+      JSON.stringify(favourites.slice(0, MAX_FAVOURITES)),
+    );
+  } catch {
+    // Ignore storage failures (e.g., private browsing)
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Focus session (Pomodoro) scheduling.
+ *
+ * A session alternates work intervals, played with the location's own
+ * soundscape, and short breaks that sound different so the change registers
+ * without looking at the screen. The last work interval ends the session
+ * without a break.
+ */
+
+import type { BiomeType } from './biomeDetector';
+import type { FocusSessionOptions, FocusSessionState } from '@/types/audio';
+
+/** Classic Pomodoro: four 25-minute intervals with 5-minute breaks */
+export const DEFAULT_FOCUS_SESSION: FocusSessionOptions = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  cycles: 4,
+  breakStyle: 'biome',
+};
+
+/**
+ * Biome each location's breaks move to: a calm contrast to the work setting.
+ */
+const BREAK_BIOMES: Record<BiomeType, BiomeType> = {
+  city: 'forest',
+  forest: 'beach',
+  field: 'lake',
+  desert: 'ocean',
+  beach: 'forest',
+  ocean: 'field',
+  lake: 'forest',
+};
+
+/**
+ * Get the biome played during breaks.
+ *
+ * @param biome - Biome of the work soundscape
+ * @returns Biome for the break soundscape
+ */
+export function getBreakBiome(biome: BiomeType): BiomeType {
+  return BREAK_BIOMES[biome];
+}
+
+/**
+ * Start a session with its first work interval.
+ *
+ * @param options - Session settings
+ * @param now - Current time (ms since epoch)
+ * @returns Session state
+ */
+export function createFocusSession(
+  options: FocusSessionOptions,
+  now: number,
+): FocusSessionState {
+  return {
+    ...options,
+    phase: 'work',
+    cycle: 1,
+    phaseEndsAt: now + options.workMinutes * 60000,
+  };
+}
+
+/**
+ * Move a session to its next phase.
+ *
+ * @param session - Session whose current phase just ended
+ * @param now - Current time (ms since epoch)
+ * @returns Next phase, or null when the last work interval is over
+ *
+ * @example
+ * const next = advanceFocusSession(session, Date.now());
+ * if (!next) track('focus_session_complete');
+ */
+export function advanceFocusSession(
+  session: FocusSessionState,
+  now: number,
+): FocusSessionState | null {
+  if (session.phase === 'break') {
+    return {
+      ...session,
+      phase: 'work',
+      cycle: session.cycle + 1,
+      phaseEndsAt: now + session.workMinutes * 60000,
+    };
+  }
+
+  if (session.cycle >= session.cycles) return null;
+
+  return {
+    ...session,
+    phase: 'break',
+    phaseEndsAt: now + session.breakMinutes * 60000,
+  };
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { searchPlaceList } from "./geocoding";
+import type { GeocodingResult } from "@/types/weather";
+
+const place = (
+  id: number,
+  name: string,
+  fields: Partial<GeocodingResult>,
+): GeocodingResult => ({
+  id,
+  name,
+  latitude: 0,
+  longitude: 0,
+  timezone: "UTC",
+  country: "United States",
+  country_code: "US",
+  ...fields,
+});
+
+const PLACES: GeocodingResult[] = [
+  place(1, "Portland", { admin1: "Oregon", feature_code: "PPLA2", population: 650000 }),
+  place(2, "Portland", { admin1: "Maine", feature_code: "PPLA2", population: 68000 }),
+  place(3, "Paris", { admin1: "Île-de-France", country: "France", country_code: "FR", feature_code: "PPLC", population: 2100000 }),
+  place(4, "Paris", { admin1: "Texas", feature_code: "PPLA2", population: 25000 }),
+  place(5, "Parisot", { admin1: "Occitanie", country: "France", country_code: "FR", feature_code: "PPL", population: 500 }),
+  place(6, "Zürich", { admin1: "Zurich", country: "Switzerland", country_code: "CH", feature_code: "PPLA", population: 340000 }),
+];
+
+const search = (query: string, count = 5) =>
+  searchPlaceList(PLACES, query, count).map((candidate) => candidate.id);
+
+describe("searchPlaceList", () => {
+  it("ranks by importance and population without a qualifier", () => {
+    assert.deepEqual(search("Portland"), [1, 2]);
+    assert.deepEqual(search("Paris"), [3, 4, 5]);
+  });
+
+  it("puts places matching the qualifier first", () => {
+    assert.deepEqual(search("Portland, Maine"), [2, 1]);
+    assert.deepEqual(search("Paris, Texas"), [4, 3, 5]);
+    assert.deepEqual(search("Paris, fr"), [3, 5, 4]);
+  });
+
+  it("reads US state codes as their states", () => {
+    assert.deepEqual(search("Portland, ME"), [2, 1]);
+    assert.deepEqual(search("Paris, TX"), [4, 3, 5]);
+  });
+
+  it("matches name prefixes, letting a qualifier outweigh the exact name", () => {
+    assert.deepEqual(search("Paris, Occitanie"), [5, 3, 4]);
+    assert.deepEqual(search("pariso"), [5]);
+  });
+
+  it("ignores case and accents", () => {
+    assert.deepEqual(search("zurich"), [6]);
+    assert.deepEqual(search("  PORTLAND "), [1, 2]);
+  });
+
+  it("limits and empties results", () => {
+    assert.deepEqual(search("Paris", 1), [3]);
+    assert.deepEqual(search("Lisbon"), []);
+    assert.deepEqual(search(", France"), []);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Place search on top of the Open-Meteo geocoding API.
+ *
+ * Open-Meteo matches the place name only, so a query like "Portland, Maine"
+ * is split into a name and a qualifier. The name is searched, and the
+ * candidates are ranked by whether they match the qualifier (region,
+ * country, or US state code), by exact name, by importance (capital, region
+ * seat, town) and by population.
+ */
+
+import type {
+  GeocodingResponse,
+  GeocodingResult,
+  LocationCandidate,
+} from "@/types/weather";
+
+/** Candidates requested from Open-Meteo before ranking */
+const GEOCODING_FETCH_COUNT = 10;
+
+/** Importance of GeoNames populated-place feature codes */
+const FEATURE_CODE_RANK: Record<string, number> = {
+  PPLC: 5, // Capital of a country
+  PPLA: 4, // Seat of a first-order region (state, province)
+  PPLA2: 3,
+  PPLA3: 2,
+  PPLA4: 1,
+  PPL: 1,
+};
+
+/** US state codes, so "Portland, ME" qualifies like "Portland, Maine" */
+const US_STATES: Record<string, string> = {
+  al: "alabama", ak: "alaska", az: "arizona", ar: "arkansas",
+  ca: "california", co: "colorado", ct: "connecticut", de: "delaware",
+  fl: "florida", ga: "georgia", hi: "hawaii", id: "idaho",
+  il: "illinois", in: "indiana", ia: "iowa", ks: "kansas",
+  ky: "kentucky", la: "louisiana", me: "maine", md: "maryland",
+  ma: "massachusetts", mi: "michigan", mn: "minnesota", ms: "mississippi",
+  mo: "missouri", mt: "montana", ne: "nebraska", nv: "nevada",
+  nh: "new hampshire", nj: "new jersey", nm: "new mexico", ny: "new york",
+  nc: "north carolina", nd: "north dakota", oh: "ohio", ok: "oklahoma",
+  or: "oregon", pa: "pennsylvania", ri: "rhode island", sc: "south carolina",
+  sd: "south dakota", tn: "tennessee", tx: "texas", ut: "utah",
+  vt: "vermont", va: "virginia", wa: "washington", wv: "west virginia",
+  wi: "wisconsin", wy: "wyoming", dc: "district of columbia",
+};
+
+/**
+ * Lowercase and strip accents, so "Zürich" matches "zurich".
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Whether a candidate lies in the place named by the qualifier.
+ */
+function matchesQualifier(result: GeocodingResult, qualifier: string): boolean {
+  const state =
+    result.country_code === "US" ? US_STATES[qualifier] : undefined;
+  const fields = [result.admin1, result.admin2, result.country]
+    .filter((field): field is string => Boolean(field))
+    .map(normalize);
+
+  return (
+    normalize(result.country_code) === qualifier ||
+    fields.some(
+      (field) => field.startsWith(qualifier) || (state && field === state),
+    )
+  );
+}
+
+/**
+ * Ranking score of a candidate (higher is better).
+ */
+function scoreResult(
+  result: GeocodingResult,
+  name: string,
+  qualifiers: string[],
+): number {
+  const qualifierScore = qualifiers.filter((qualifier) =>
+    matchesQualifier(result, qualifier),
+  ).length;
+  const exactName = normalize(result.name) === name ? 1 : 0;
+  const importance = FEATURE_CODE_RANK[result.feature_code ?? ""] ?? 0;
+  const population = Math.log10((result.population ?? 0) + 1);
+
+  return qualifierScore * 100 + exactName * 20 + importance * 5 + population * 2;
+}
+
+/**
+ * Split a query like "Portland, ME" into the normalized place name and
+ * qualifiers.
+ */
+function parseQuery(query: string): { name: string; qualifiers: string[] } {
+  const [namePart, ...qualifierParts] = query.split(",");
+  return {
+    name: normalize(namePart),
+    qualifiers: qualifierParts.map(normalize).filter(Boolean),
+  };
+}
+
+function toCandidate(result: GeocodingResult): LocationCandidate {
+  return {
+    id: result.id,
+    name: result.name,
+    admin1: result.admin1,
+    country: result.country,
+    country_code: result.country_code,
+    feature_code: result.feature_code,
+    lat: result.latitude,
+    lon: result.longitude,
+  };
+}
+
+/**
+ * Search places by name, ranked for the query.
+ *
+ * @param query - Place name, optionally followed by region/country
+ *   (e.g., "Portland, Maine" or "Paris, TX")
+ * @param count - Maximum number of candidates
+ * @returns Ranked candidates (empty when nothing matches)
+ * @throws Error when the geocoding service fails
+ *
+ * @example
+ * const [best] = await geocodeLocation("Portland, ME", 5);
+ */
+export async function geocodeLocation(
+  query: string,
+  count: number,
+): Promise<LocationCandidate[]> {
+  const { name, qualifiers } = parseQuery(query);
+  if (!name) return [];
+
+  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
+    query.split(",")[0].trim(),
+  )}&count=${GEOCODING_FETCH_COUNT}&language=en&format=json`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with status ${response.status}`);
+  }
+
+  const data: GeocodingResponse = await response.json();
+  return rankResults(data.results ?? [], name, qualifiers, count);
+}
+
+/**
+ * Search a fixed list of places the way Open-Meteo is searched: by name
+ * prefix, ranked like geocodeLocation (used by the mock weather provider).
+ *
+ * @param places - Places to search
+ * @param query - Place name, optionally followed by region/country
+ * @param count - Maximum number of candidates
+ * @returns Ranked candidates (empty when nothing matches)
+ */
+export function searchPlaceList(
+  places: GeocodingResult[],
+  query: string,
+  count: number,
+): LocationCandidate[] {
+  const { name, qualifiers } = parseQuery(query);
+  if (!name) return [];
+
+  const matches = places.filter((place) =>
+    normalize(place.name).startsWith(name),
+  );
+  return rankResults(matches, name, qualifiers, count);
+}
+
+function rankResults(
+  results: GeocodingResult[],
+  name: string,
+  qualifiers: string[],
+  count: number,
+): LocationCandidate[] {
+  // Sort is stable, so equal scores keep the results' own order
+  return results
+    .map((result) => ({ result, score: scoreResult(result, name, qualifiers) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ result }) => toCandidate(result));
+}
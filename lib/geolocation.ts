@@ -0,0 +1,157 @@
+/**
+ * Finding where the user is.
+ *
+ * The browser's Geolocation API is tried first: it is exact, but needs the
+ * user's permission. When it is unavailable, denied or too slow, the IP
+ * lookup (ipwho.is) gives the approximate position of the connection.
+ *
+ * A browser position has no place name, so it borrows the IP lookup's city
+ * when that city is nearby, and is labelled by its coordinates otherwise
+ * (e.g., behind a VPN).
+ */
+
+import logger from "./utils/logger";
+import type { CoordinateRequest } from "./weather";
+
+/** Give up on the browser position after this long (ms) */
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+/** Accept a browser position up to this old (ms) */
+const GEOLOCATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** Furthest the IP lookup's city may be from the device to name it (km) */
+const IP_LABEL_MAX_DISTANCE_KM = 100;
+
+const EARTH_RADIUS_KM = 6371;
+
+export type GeolocationMethod = "gps" | "ip";
+
+export interface UserLocation extends CoordinateRequest {
+  /** How the position was found */
+  method: GeolocationMethod;
+}
+
+/**
+ * Position from the browser's Geolocation API (asks for permission).
+ *
+ * @returns Exact coordinates of the device (without a place name)
+ * @throws Error when unsupported, denied, unavailable or timed out
+ */
+export function getBrowserLocation(): Promise<UserLocation> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      reject(new Error("Geolocation is not supported"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          method: "gps",
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+        }),
+      (error) => reject(new Error(error.message || "Geolocation failed")),
+      {
+        // City-level accuracy is plenty for weather and biome
+        enableHighAccuracy: false,
+        timeout: GEOLOCATION_TIMEOUT_MS,
+        maximumAge: GEOLOCATION_MAX_AGE_MS,
+      },
+    );
+  });
+}
+
+/**
+ * Approximate position from the IP address of the connection.
+ *
+ * @returns Coordinates with the city, region and country of the lookup
+ * @throws Error when the lookup fails
+ */
+export async function getIpLocation(): Promise<UserLocation> {
+  const response = await fetch("https://ipwho.is/");
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.message || "IP geolocation failed");
+  }
+
+  if (!Number.isFinite(data.latitude) || !Number.isFinite(data.longitude)) {
+    throw new Error("No coordinates in IP geolocation response");
+  }
+
+  return {
+    method: "ip",
+    lat: data.latitude,
+    lon: data.longitude,
+    name: data.city || undefined,
+    region: data.region || undefined,
+    country: data.country || undefined,
+  };
+}
+
+/**
+ * Great-circle distance between two points (haversine).
+ */
+function getDistanceKm(a: CoordinateRequest, b: CoordinateRequest): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Coordinates as a place label (e.g., "45.52°N, 122.68°W").
+ */
+function formatCoordinates(lat: number, lon: number): string {
+  const latitude = `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? "N" : "S"}`;
+  const longitude = `${Math.abs(lon).toFixed(2)}°${lon >= 0 ? "E" : "W"}`;
+  return `${latitude}, ${longitude}`;
+}
+
+/**
+ * Name a browser position after the IP lookup's city when it's nearby,
+ * keeping the exact coordinates.
+ */
+async function nameBrowserLocation(
+  location: UserLocation,
+): Promise<UserLocation> {
+  try {
+    const ipLocation = await getIpLocation();
+    if (
+      ipLocation.name &&
+      getDistanceKm(location, ipLocation) <= IP_LABEL_MAX_DISTANCE_KM
+    ) {
+      const { name, region, country } = ipLocation;
+      return { ...location, name, region, country };
+    }
+  } catch (error) {
+    logger.debug("IP lookup for the place name failed:", error);
+  }
+
+  return { ...location, name: formatCoordinates(location.lat, location.lon) };
+}
+
+/**
+ * Where the user is: the browser position when granted, else the IP lookup.
+ *
+ * @returns Coordinates, a place name, and how the position was found
+ * @throws Error when both methods fail
+ */
+export async function getUserLocation(): Promise<UserLocation> {
+  let location: UserLocation;
+  try {
+    location = await getBrowserLocation();
+  } catch (error) {
+    logger.debug("Browser geolocation unavailable, using IP lookup:", error);
+    return getIpLocation();
+  }
+
+  return nameBrowserLocation(location);
+}
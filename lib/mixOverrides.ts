@@ -0,0 +1,64 @@
+/**
+ * Per-biome layer mix overrides.
+ *
+ * Users can turn individual layers up, down or off from the mixer panel.
+ * Overrides are stored per biome in localStorage so they are reapplied
+ * whenever that biome's soundscape is regenerated.
+ */
+
+import type { BiomeType } from "./biomeDetector";
+import type { LayerOverrides } from "@/types/audio";
+
+const MIX_STORAGE_KEY = "hearaway_layer_mix";
+
+type StoredMix = Partial<Record<BiomeType, LayerOverrides>>;
+
+/**
+ * Read every stored override from localStorage.
+ */
+function readStoredMix(): StoredMix {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = window.localStorage.getItem(MIX_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredMix) : {};
+  } catch {
+    return {}; // Corrupt or unavailable storage behaves like no overrides
+  }
+}
+
+/**
+ * Load the layer overrides saved for a biome.
+ *
+ * @param biome - Biome type
+ * @returns Overrides keyed by sound ID (empty if none saved)
+ */
+export function loadLayerOverrides(biome: BiomeType): LayerOverrides {
+  return { ...readStoredMix()[biome] };
+}
+
+/**
+ * Persist the layer overrides for a biome.
+ *
+ * @param biome - Biome type
+ * @param overrides - Overrides keyed by sound ID (empty removes the entry)
+ */
+export function saveLayerOverrides(
+  biome: BiomeType,
+  overrides: LayerOverrides,
+): void {
+  if (typeof window === "undefined") return;
+
+  const stored = readStoredMix();
+  if (Object.keys(overrides).length > 0) {
+    stored[biome] = overrides;
+  } else {
+    delete stored[biome];
+  }
+
+  try {
+    window.localStorage.setItem(MIX_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Ignore storage failures (e.g., private browsing)
+  }
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { WeatherData } from '@/types/weather';
+import { getPreloadPlan } from './preloadPlanner';
+
+/** Clear, humid summer weather at Lake Geneva */
+function lakeWeather(
+  localtime: string,
+  forecast?: WeatherData['forecast'],
+): WeatherData {
+  return {
+    location: {
+      name: 'Geneva',
+      region: 'Geneva',
+      country: 'Switzerland',
+      localtime,
+      utc_offset_seconds: 7200,
+    },
+    current: {
+      temp_f: 61,
+      temp_c: 16,
+      condition: { text: 'Clear', code: 0 },
+      wind_mph: 3,
+      wind_kph: 5,
+      wind_dir: 180,
+      humidity: 92,
+      feelslike_f: 61,
+      feelslike_c: 16,
+    },
+    biome: { type: 'lake', coordinates: { lat: 46.2, lon: 6.15 } },
+    forecast,
+  };
+}
+
+const rainAt = (time: string) => ({
+  time,
+  condition: { text: 'Rain', code: 63 },
+});
+
+describe('getPreloadPlan', () => {
+  it('covers every weather intensity at the current time of day', () => {
+    const { current, next } = getPreloadPlan(lakeWeather('2025-06-21T13:00'));
+
+    assert.equal(current[0], 'waves_small_close'); // Current weather first
+    assert.ok(current.includes('birds-forest_light_far'));
+    assert.ok(current.includes('rain_light'));
+    assert.ok(current.includes('thunder_rolling_light_far'));
+    assert.ok(!current.includes('desert-cricket_heavy_close'));
+    assert.deepEqual(next, []);
+  });
+
+  it('prefetches the night sounds shortly before dark', () => {
+    const { current, next } = getPreloadPlan(lakeWeather('2025-06-21T21:50'));
+
+    assert.deepEqual(next, ['desert-cricket_heavy_close']);
+    assert.ok(!current.includes('desert-cricket_heavy_close'));
+  });
+
+  it('prefetches the day sounds shortly before sunrise', () => {
+    const { next } = getPreloadPlan(lakeWeather('2025-06-21T04:30'));
+    assert.deepEqual(next, ['birds-forest_light_far']);
+  });
+
+  it('prefetches forecast weather within the lookahead only', () => {
+    const within = getPreloadPlan(
+      lakeWeather('2025-06-21T19:30', [rainAt('2025-06-21T22:30')]),
+    );
+    assert.ok(within.next.includes('desert-cricket_heavy_close'));
+
+    const beyond = getPreloadPlan(
+      lakeWeather('2025-06-21T19:30', [rainAt('2025-06-21T23:00')]),
+    );
+    assert.deepEqual(beyond.next, []);
+  });
+
+  it('never lists a sound twice', () => {
+    const { current, next } = getPreloadPlan(
+      lakeWeather('2025-06-21T21:50', [rainAt('2025-06-21T23:00')]),
+    );
+    const all = [...current, ...next];
+    assert.equal(new Set(all).size, all.length);
+  });
+});
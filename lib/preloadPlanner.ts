@@ -0,0 +1,169 @@
+/**
+ * Preload planning for the soundscape.
+ *
+ * Decides which sounds to decode ahead of time instead of loading every
+ * file: everything the current biome can play at this time of day in any
+ * weather, followed by the sets that are likely next (the coming day phase
+ * when it's close, and the weather in the hourly forecast).
+ */
+
+import type { WeatherData } from '@/types/weather';
+import type { SoundId } from '@/types/audio';
+import { getTimeOfDayFromPhase } from './biomeUtils';
+import {
+  getPhaseFromPosition,
+  getSolarPosition,
+  localTimeToDate,
+} from './solar';
+import { getAccentSpecs, getSoundLayers } from './soundMapping';
+
+/**
+ * Weather codes covering every intensity the sound mapping distinguishes:
+ * clear, overcast, fog, drizzle, light/moderate/heavy rain and snow, thunder.
+ */
+const PLANNED_WEATHER_CODES = [0, 3, 45, 53, 61, 63, 65, 71, 73, 75, 95];
+
+/** Wind speeds (km/h) spanning calm to gale for the wind layers */
+const PLANNED_WIND_SPEEDS = [0, 10, 20, 35, 50];
+
+/** How far ahead the next day phase is prefetched (minutes) */
+const PHASE_LOOKAHEAD_MINUTES = 45;
+
+/** How far ahead forecast weather is prefetched (hours) */
+const FORECAST_LOOKAHEAD_HOURS = 3;
+
+/**
+ * Sounds to preload, in priority order.
+ */
+export interface PreloadPlan {
+  /** Sounds the biome can play now, current weather first */
+  current: SoundId[];
+
+  /** Sounds likely needed next (upcoming phase, forecast weather) */
+  next: SoundId[];
+}
+
+/**
+ * Moves a local wall-clock timestamp by a number of minutes.
+ *
+ * @param localtime - ISO 8601 local timestamp (e.g., "2025-10-31T14:30")
+ * @param minutes - Minutes to add
+ * @returns Shifted local timestamp in the same format
+ */
+function shiftLocaltime(localtime: string, minutes: number): string {
+  const [datePart, timePart = '00:00'] = localtime.split('T');
+  const wallClock = Date.parse(`${datePart}T${timePart.slice(0, 5)}:00Z`);
+  return new Date(wallClock + minutes * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Collects every layer and accent sound for a moment at the given weather.
+ *
+ * @param weatherData - Current weather (location, humidity, temperature)
+ * @param localtime - Local time of the moment
+ * @param weatherCodes - WMO weather codes to cover
+ * @param windSpeeds - Wind speeds to cover (km/h)
+ * @param sounds - Set the sound IDs are added to, in discovery order
+ */
+function addMomentSounds(
+  weatherData: WeatherData,
+  localtime: string,
+  weatherCodes: number[],
+  windSpeeds: number[],
+  sounds: Set<SoundId>,
+): void {
+  const { lat, lon } = weatherData.biome.coordinates;
+  const biome = weatherData.biome.type;
+  const date = localTimeToDate(
+    localtime,
+    lon,
+    weatherData.location.utc_offset_seconds,
+  );
+  const dayPhase = getPhaseFromPosition(getSolarPosition(date, lat, lon));
+  const timeOfDay = getTimeOfDayFromPhase(dayPhase);
+  const options = {
+    windDirection: weatherData.current.wind_dir,
+    location: { lat, lon, localtime },
+    dayPhase,
+    temperatureC: weatherData.current.temp_c,
+  };
+
+  for (const weatherCode of weatherCodes) {
+    for (const windSpeed of windSpeeds) {
+      const layers = getSoundLayers(
+        biome,
+        timeOfDay,
+        weatherCode,
+        windSpeed,
+        weatherData.current.humidity,
+        options,
+      );
+      const accents = getAccentSpecs(
+        biome,
+        timeOfDay,
+        weatherCode,
+        windSpeed,
+        options.windDirection,
+      );
+
+      layers.forEach((layer) => sounds.add(layer.soundId));
+      accents.forEach((accent) => sounds.add(accent.soundId));
+    }
+  }
+}
+
+/**
+ * Plans which sounds to preload for a location's weather.
+ *
+ * @param weatherData - Current weather data
+ * @returns Current and upcoming sounds, without duplicates
+ *
+ * @example
+ * const { current, next } = getPreloadPlan(weatherData);
+ * await audioManager.preloadSounds([...current, ...next]);
+ */
+export function getPreloadPlan(weatherData: WeatherData): PreloadPlan {
+  const { localtime } = weatherData.location;
+  const weatherCode = weatherData.current.condition.code;
+  const windSpeed = weatherData.current.wind_kph;
+
+  // Current weather first, then every other intensity at this time of day
+  const current = new Set<SoundId>();
+  addMomentSounds(weatherData, localtime, [weatherCode], [windSpeed], current);
+  addMomentSounds(
+    weatherData,
+    localtime,
+    PLANNED_WEATHER_CODES,
+    PLANNED_WIND_SPEEDS,
+    current,
+  );
+
+  // The coming day phase (e.g., the evening set before dusk)
+  const upcoming = new Set<SoundId>();
+  addMomentSounds(
+    weatherData,
+    shiftLocaltime(localtime, PHASE_LOOKAHEAD_MINUTES),
+    [weatherCode],
+    [windSpeed],
+    upcoming,
+  );
+
+  // Forecast weather (e.g., rain layers when precipitation is on the way)
+  const horizon = shiftLocaltime(localtime, FORECAST_LOOKAHEAD_HOURS * 60);
+  for (const hour of weatherData.forecast ?? []) {
+    if (hour.time > localtime && hour.time <= horizon) {
+      addMomentSounds(
+        weatherData,
+        hour.time,
+        [hour.condition.code],
+        [windSpeed],
+        upcoming,
+      );
+    }
+  }
+
+  return {
+    current: [...current],
+    next: [...upcoming].filter((soundId) => !current.has(soundId)),
+  };
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileRuleExpression } from './ruleExpression';
+
+const evaluate = (source: string | number | boolean, variables = {}) =>
+  compileRuleExpression(source).evaluate(variables);
+
+describe('compileRuleExpression', () => {
+  it('follows arithmetic, comparison and logic precedence', () => {
+    assert.equal(evaluate('1 + 2 * 3'), 7);
+    assert.equal(evaluate('(1 + 2) * 3'), 9);
+    assert.equal(evaluate('-2 * -3'), 6);
+    assert.equal(evaluate('1 + 2 < 4 && 3 == 3'), true);
+    assert.equal(evaluate('false || 1 < 2 && 2 < 1'), false);
+    assert.equal(evaluate('!false && !(1 > 2)'), true);
+    assert.equal(evaluate('.5 + 0.25'), 0.75);
+  });
+
+  it('nests ternaries to the right', () => {
+    const source = 'x < 0 ? -1 : x == 0 ? 0 : 1';
+    assert.equal(evaluate(source, { x: -5 }), -1);
+    assert.equal(evaluate(source, { x: 0 }), 0);
+    assert.equal(evaluate(source, { x: 5 }), 1);
+  });
+
+  it('calls min, max and clamp', () => {
+    assert.equal(evaluate('min(0.75, 0.45 + rain * 0.6)', { rain: 0.4 }), 0.69);
+    assert.equal(evaluate('min(0.75, 0.45 + rain * 0.6)', { rain: 1 }), 0.75);
+    assert.equal(evaluate('max(1, 2)'), 2);
+    assert.equal(evaluate('clamp(wind / 40, 0.2, 0.8)', { wind: 60 }), 0.8);
+  });
+
+  it('treats division by zero as zero', () => {
+    assert.equal(evaluate('1 / 0'), 0);
+  });
+
+  it('accepts JSON literals as-is', () => {
+    assert.equal(evaluate(0.4), 0.4);
+    assert.equal(evaluate(true), true);
+  });
+
+  it('lists the variables it reads', () => {
+    const expression = compileRuleExpression('isNight ? min(rain, 0.5) : wind');
+    assert.deepEqual([...expression.variables].sort(), ['isNight', 'rain', 'wind']);
+  });
+
+  it('skips the right-hand side of short-circuited logic', () => {
+    assert.equal(evaluate('false && missing', {}), false);
+    assert.equal(evaluate('true || missing', {}), true);
+  });
+
+  it('rejects unknown variables when evaluated', () => {
+    assert.throws(() => evaluate('missing + 1'), /Unknown variable "missing"/);
+  });
+
+  it('rejects syntax errors with the expression in the message', () => {
+    for (const source of ['1 +', '(1 + 2', '1 2', 'a = b', 'max(1)', 'pow(2, 3)', 'a ? b', '']) {
+      assert.throws(() => compileRuleExpression(source), /^Error: Invalid expression/, source);
+    }
+  });
+
+  it('never runs code', () => {
+    assert.throws(() => compileRuleExpression('process.exit(1)'), /Invalid expression/);
+    assert.throws(() => compileRuleExpression('constructor["constructor"]'), /Invalid expression/);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Safe expression language for soundscape rule files.
+ *
+ * Rule files describe conditions, volumes and rates as small expressions
+ * such as `"isNight ? 0.4 : 0.55"` or `"min(0.75, 0.45 + rain * 0.6)"`.
+ * They are parsed into a tree once at load time and evaluated against a
+ * table of variables; nothing is ever passed to eval() or Function().
+ *
+ * Supported syntax:
+ * - Numbers, `true`, `false` and variable names
+ * - Arithmetic: `+ - * /`, unary `-`
+ * - Comparison: `< <= > >= == !=`
+ * - Logic: `&& || !` and the ternary `a ? b : c`
+ * - Parentheses and the functions `min`, `max`, `clamp(x, lo, hi)`
+ */
+
+export type RuleValue = number | boolean;
+
+type ExpressionNode =
+  | { type: 'literal'; value: RuleValue }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | {
+      type: 'binary';
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+/**
+ * A parsed rule expression, ready to evaluate.
+ */
+export interface RuleExpression {
+  /** Original expression text (for error messages) */
+  source: string;
+
+  /** Variable names referenced by the expression */
+  variables: Set<string>;
+
+  /**
+   * Evaluate the expression.
+   *
+   * @param variables - Variable values by name
+   * @returns Numeric or boolean result
+   */
+  evaluate: (variables: Record<string, RuleValue>) => RuleValue;
+}
+
+const FUNCTIONS: Record<string, { arity: number; fn: (...args: number[]) => number }> = {
+  min: { arity: 2, fn: Math.min },
+  max: { arity: 2, fn: Math.max },
+  clamp: {
+    arity: 3,
+    fn: (value, low, high) => Math.min(high, Math.max(low, value)),
+  },
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '!', '(', ')', '?', ':', ','];
+
+/**
+ * Split an expression into tokens.
+ */
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(index));
+    if (number) {
+      tokens.push(number[0]);
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (identifier) {
+      tokens.push(identifier[0]);
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (operator) {
+      tokens.push(operator);
+      index += operator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${index}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser, lowest precedence first.
+ */
+function parse(tokens: string[]): ExpressionNode {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}"`);
+    }
+  };
+
+  const binaryLevel =
+    (operators: string[], parseOperand: () => ExpressionNode) =>
+    (): ExpressionNode => {
+      let left = parseOperand();
+      while (operators.includes(peek())) {
+        const operator = next();
+        left = { type: 'binary', operator, left, right: parseOperand() };
+      }
+      return left;
+    };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+    if (/^(\d|\.\d)/.test(token)) {
+      return { type: 'literal', value: Number(token) };
+    }
+    if (token === 'true' || token === 'false') {
+      return { type: 'literal', value: token === 'true' };
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() !== '(') {
+        return { type: 'variable', name: token };
+      }
+
+      const fn = FUNCTIONS[token];
+      if (!fn) {
+        throw new Error(`Unknown function "${token}"`);
+      }
+      next(); // (
+      const args: ExpressionNode[] = [];
+      if (peek() !== ')') {
+        args.push(parseConditional());
+        while (peek() === ',') {
+          next();
+          args.push(parseConditional());
+        }
+      }
+      expect(')');
+      if (args.length !== fn.arity) {
+        throw new Error(`${token}() takes ${fn.arity} arguments`);
+      }
+      return { type: 'call', name: token, args };
+    }
+
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek() === '!' || peek() === '-') {
+      const operator = next() as '!' | '-';
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = binaryLevel(['*', '/'], parseUnary);
+  const parseAdditive = binaryLevel(['+', '-'], parseMultiplicative);
+  const parseComparison = binaryLevel(['<', '<=', '>', '>='], parseAdditive);
+  const parseEquality = binaryLevel(['==', '!='], parseComparison);
+  const parseAnd = binaryLevel(['&&'], parseEquality);
+  const parseOr = binaryLevel(['||'], parseAnd);
+
+  function parseConditional(): ExpressionNode {
+    const test = parseOr();
+    if (peek() !== '?') return test;
+
+    next();
+    const consequent = parseConditional();
+    expect(':');
+    return { type: 'conditional', test, consequent, alternate: parseConditional() };
+  }
+
+  const tree = parseConditional();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${peek()}"`);
+  }
+  return tree;
+}
+
+/**
+ * Collect the variable names used by an expression tree.
+ */
+function collectVariables(node: ExpressionNode, names: Set<string>): void {
+  switch (node.type) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'unary':
+      collectVariables(node.operand, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'conditional':
+      collectVariables(node.test, names);
+      collectVariables(node.consequent, names);
+      collectVariables(node.alternate, names);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectVariables(arg, names));
+      break;
+  }
+}
+
+/**
+ * Evaluate an expression tree.
+ */
+function evaluateNode(
+  node: ExpressionNode,
+  variables: Record<string, RuleValue>,
+): RuleValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'variable': {
+      const value = variables[node.name];
+      if (value === undefined) {
+        throw new Error(`Unknown variable "${node.name}"`);
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, variables);
+      return node.operator === '!' ? !operand : -Number(operand);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, variables)
+        ? evaluateNode(node.consequent, variables)
+        : evaluateNode(node.alternate, variables);
+
+    case 'call':
+      return FUNCTIONS[node.name].fn(
+        ...node.args.map((arg) => Number(evaluateNode(arg, variables))),
+      );
+
+    case 'binary': {
+      // Short-circuit logic before evaluating the right-hand side
+      if (node.operator === '&&') {
+        return Boolean(evaluateNode(node.left, variables)) &&
+          Boolean(evaluateNode(node.right, variables));
+      }
+      if (node.operator === '||') {
+        return Boolean(evaluateNode(node.left, variables)) ||
+          Boolean(evaluateNode(node.right, variables));
+      }
+
+      const left = Number(evaluateNode(node.left, variables));
+      const right = Number(evaluateNode(node.right, variables));
+
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? 0 : left / right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+      throw new Error(`Unknown operator "${node.operator}"`);
+    }
+  }
+}
+
+/**
+ * Parse a rule expression.
+ *
+ * Literal numbers and booleans (as found in JSON) are accepted as-is.
+ *
+ * @param source - Expression text, or a literal value
+ * @returns Parsed expression
+ * @throws Error describing the syntax problem
+ *
+ * @example
+ * const volume = compileRuleExpression('min(0.75, 0.45 + rain * 0.6)');
+ * volume.evaluate({ rain: 0.4 });  // 0.69
+ */
+export function compileRuleExpression(
+  source: string | number | boolean,
+): RuleExpression {
+  const text = String(source);
+  let tree: ExpressionNode;
+
+  try {
+    tree = typeof source === 'string'
+      ? parse(tokenize(source))
+      : { type: 'literal', value: source };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid expression "${text}": ${reason}`);
+  }
+
+  const variables = new Set<string>();
+  collectVariables(tree, variables);
+
+  return {
+    source: text,
+    variables,
+    evaluate: (values) => evaluateNode(tree, values),
+  };
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_INSIDE_FILTER_FREQUENCY,
+  MIN_INSIDE_FILTER_FREQUENCY,
+} from "./audioUtils";
+import { buildSoundscapeSearch, parseSoundscapeLink } from "./shareLink";
+
+const parse = (search: string) =>
+  parseSoundscapeLink(new URLSearchParams(search));
+
+describe("parseSoundscapeLink", () => {
+  it("requires coordinates on the globe", () => {
+    assert.equal(parse(""), null);
+    assert.equal(parse("lat=35&lon=abc"), null);
+    assert.equal(parse("lat=90.1&lon=0"), null);
+    assert.equal(parse("lat=0&lon=-180.1"), null);
+    assert.deepEqual(parse("lat=-90&lon=180"), { lat: -90, lon: 180 });
+  });
+
+  it("accepts only filter frequencies inside mode can apply", () => {
+    const frequency = (f: number) => parse(`lat=0&lon=0&f=${f}`)?.filterFrequency;
+
+    assert.equal(frequency(MIN_INSIDE_FILTER_FREQUENCY), MIN_INSIDE_FILTER_FREQUENCY);
+    assert.equal(frequency(MAX_INSIDE_FILTER_FREQUENCY), MAX_INSIDE_FILTER_FREQUENCY);
+    assert.equal(frequency(MIN_INSIDE_FILTER_FREQUENCY - 1), undefined);
+    assert.equal(frequency(MAX_INSIDE_FILTER_FREQUENCY + 1), undefined);
+    assert.equal(frequency(999.6), 1000);
+  });
+
+  it("reads inside mode only from 1 or 0", () => {
+    assert.equal(parse("lat=0&lon=0&inside=1")?.inside, true);
+    assert.equal(parse("lat=0&lon=0&inside=0")?.inside, false);
+    assert.equal(parse("lat=0&lon=0&inside=yes")?.inside, undefined);
+  });
+
+  it("skips malformed mix entries and unknown sounds, capping volume", () => {
+    const link = parse(
+      "lat=0&lon=0&mix=birds-forest_light_far:150,rain_light:m,stream_medium:40m,no_such_sound:50,waves_small_close,waves_light_close:",
+    );
+
+    assert.deepEqual(link?.mix, {
+      "birds-forest_light_far": { volume: 1 },
+      rain_light: { muted: true },
+      stream_medium: { volume: 0.4, muted: true },
+    });
+  });
+
+  it("marks only links with s=1 as shared", () => {
+    assert.equal(parse("lat=0&lon=0&inside=1&f=800")?.shared, undefined);
+    assert.equal(parse("lat=0&lon=0&s=1")?.shared, true);
+  });
+});
+
+describe("buildSoundscapeSearch", () => {
+  it("round-trips a shared link", () => {
+    const link = {
+      lat: 35.0116,
+      lon: 135.7681,
+      name: "Kyoto",
+      country: "Japan",
+      inside: true,
+      filterFrequency: 800,
+      mix: {
+        "birds-forest_light_far": { volume: 0.4 },
+        rain_light: { muted: true },
+      },
+      shared: true,
+    };
+
+    assert.deepEqual(parse(buildSoundscapeSearch(link)), link);
+  });
+
+  it("leaves out the filter frequency unless inside mode is on", () => {
+    const search = buildSoundscapeSearch({
+      lat: 1,
+      lon: 2,
+      inside: false,
+      filterFrequency: 800,
+    });
+    assert.equal(search, "lat=1.0000&lon=2.0000&inside=0");
+  });
+});
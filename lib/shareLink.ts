@@ -0,0 +1,169 @@
+/**
+ * Shareable soundscape links.
+ *
+ * The page URL carries the place being listened to, so a refresh or a shared
+ * link lands on the same soundscape:
+ *
+ *   /?lat=35.01&lon=135.77&name=Kyoto&country=Japan&inside=1&f=1000&mix=birds-forest_light_far:40,cars-passing_low_far:m&s=1
+ *
+ * Only the location is kept in the address bar; inside mode, filter
+ * frequency and the layer mix are added to links the user shares, which
+ * are marked with s=1.
+ */
+
+import {
+  MAX_INSIDE_FILTER_FREQUENCY,
+  MIN_INSIDE_FILTER_FREQUENCY,
+  soundExists,
+} from "./audioUtils";
+import type { LayerOverrides } from "@/types/audio";
+
+/**
+ * Soundscape state stored in a link.
+ */
+export interface SoundscapeLink {
+  lat: number;
+  lon: number;
+  name?: string;
+  region?: string;
+  country?: string;
+
+  /** Inside mode (muffled) */
+  inside?: boolean;
+
+  /** Inside mode low-pass frequency in Hz */
+  filterFrequency?: number;
+
+  /** Layer overrides for the location's biome */
+  mix?: LayerOverrides;
+
+  /** Link shared by a user (rather than the page's own address) */
+  shared?: boolean;
+}
+
+/** One mix entry: "<soundId>:<volume %>", "<soundId>:m" or "<soundId>:<volume %>m" */
+const MIX_ENTRY_PATTERN = /^([\w-]+):(\d{1,3})?(m)?$/;
+
+/**
+ * Encode layer overrides for the `mix` parameter.
+ */
+function encodeMix(mix: LayerOverrides): string {
+  return Object.entries(mix)
+    .map(([soundId, override]) => {
+      const volume =
+        override.volume === undefined ? "" : Math.round(override.volume * 100);
+      return `${soundId}:${volume}${override.muted ? "m" : ""}`;
+    })
+    .filter((entry) => !entry.endsWith(":"))
+    .join(",");
+}
+
+/**
+ * Decode the `mix` parameter, skipping malformed entries and unknown sounds.
+ */
+function decodeMix(value: string): LayerOverrides {
+  const mix: LayerOverrides = {};
+
+  for (const entry of value.split(",")) {
+    const match = MIX_ENTRY_PATTERN.exec(entry);
+    if (!match) continue;
+
+    const [, soundId, volume, muted] = match;
+    if (!soundExists(soundId) || (volume === undefined && !muted)) continue;
+
+    mix[soundId] = {
+      ...(volume !== undefined && {
+        volume: Math.min(100, Number(volume)) / 100,
+      }),
+      ...(muted && { muted: true }),
+    };
+  }
+
+  return mix;
+}
+
+/**
+ * Read soundscape state from URL search parameters.
+ *
+ * @param params - Search parameters of the page URL
+ * @returns Link state, or null when the URL has no valid location
+ *
+ * @example
+ * const link = parseSoundscapeLink(new URLSearchParams(window.location.search));
+ * if (link) getWeatherByCoordinates(link);
+ */
+export function parseSoundscapeLink(
+  params: URLSearchParams,
+): SoundscapeLink | null {
+  const lat = Number.parseFloat(params.get("lat") ?? "");
+  const lon = Number.parseFloat(params.get("lon") ?? "");
+
+  if (
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lon) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lon) > 180
+  ) {
+    return null;
+  }
+
+  const link: SoundscapeLink = { lat, lon };
+
+  for (const key of ["name", "region", "country"] as const) {
+    const value = params.get(key);
+    if (value) link[key] = value;
+  }
+
+  const inside = params.get("inside");
+  if (inside === "1" || inside === "0") {
+    link.inside = inside === "1";
+  }
+
+  const frequency = Number.parseFloat(params.get("f") ?? "");
+  if (
+    frequency >= MIN_INSIDE_FILTER_FREQUENCY &&
+    frequency <= MAX_INSIDE_FILTER_FREQUENCY
+  ) {
+    link.filterFrequency = Math.round(frequency);
+  }
+
+  const mix = params.get("mix");
+  if (mix) {
+    const overrides = decodeMix(mix);
+    if (Object.keys(overrides).length > 0) link.mix = overrides;
+  }
+
+  if (params.get("s") === "1") link.shared = true;
+
+  return link;
+}
+
+/**
+ * Build URL search parameters for soundscape state.
+ *
+ * @param link - State to encode (coordinates rounded to ~10 m)
+ * @returns Search parameters (without the leading "?")
+ *
+ * @example
+ * const url = `${window.location.origin}/?${buildSoundscapeSearch(link)}`;
+ */
+export function buildSoundscapeSearch(link: SoundscapeLink): string {
+  const params = new URLSearchParams({
+    lat: link.lat.toFixed(4),
+    lon: link.lon.toFixed(4),
+  });
+
+  if (link.name) params.set("name", link.name);
+  if (link.region) params.set("region", link.region);
+  if (link.country) params.set("country", link.country);
+  if (link.inside !== undefined) params.set("inside", link.inside ? "1" : "0");
+  if (link.inside && link.filterFrequency !== undefined) {
+    params.set("f", String(Math.round(link.filterFrequency)));
+  }
+
+  const mix = link.mix ? encodeMix(link.mix) : "";
+  if (mix) params.set("mix", mix);
+  if (link.shared) params.set("s", "1");
+
+  return params.toString();
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getPhaseFromPosition,
+  getSolarPosition,
+  localTimeToDate,
+} from "./solar";
+
+describe("getPhaseFromPosition", () => {
+  it("puts the phase boundaries on the documented elevations", () => {
+    const rising = (elevation: number) =>
+      getPhaseFromPosition({ elevation, isRising: true });
+    const setting = (elevation: number) =>
+      getPhaseFromPosition({ elevation, isRising: false });
+
+    assert.equal(rising(-6.01), "night");
+    assert.equal(rising(-6), "dawn");
+    assert.equal(rising(5.99), "dawn");
+    assert.equal(rising(6), "day");
+
+    assert.equal(setting(6), "day");
+    assert.equal(setting(5.99), "golden-hour");
+    assert.equal(setting(-0.833), "golden-hour");
+    assert.equal(setting(-0.84), "twilight");
+    assert.equal(setting(-6), "twilight");
+    assert.equal(setting(-6.01), "night");
+  });
+});
+
+describe("getSolarPosition", () => {
+  it("matches the sun at Greenwich on the June solstice", () => {
+    const noon = getSolarPosition(new Date("2025-06-21T12:00:00Z"), 51.48, 0);
+    assert.ok(Math.abs(noon.elevation - 62) < 0.5);
+
+    const morning = getSolarPosition(new Date("2025-06-21T06:00:00Z"), 51.48, 0);
+    assert.equal(morning.isRising, true);
+
+    const evening = getSolarPosition(new Date("2025-06-21T18:00:00Z"), 51.48, 0);
+    assert.equal(evening.isRising, false);
+
+    const midnight = getSolarPosition(new Date("2025-06-21T00:00:00Z"), 51.48, 0);
+    assert.ok(midnight.elevation < -6);
+  });
+
+  it("keeps the polar summer sun up at midnight", () => {
+    const position = getSolarPosition(new Date("2025-06-21T00:00:00Z"), 78.22, 15.65);
+    assert.ok(position.elevation > 0);
+  });
+});
+
+describe("localTimeToDate", () => {
+  it("uses the reported UTC offset", () => {
+    assert.equal(
+      localTimeToDate("2025-10-31T14:30", 0, 3600).toISOString(),
+      "2025-10-31T13:30:00.000Z"
+    );
+  });
+
+  it("estimates the offset from longitude without one", () => {
+    assert.equal(
+      localTimeToDate("2025-10-31T14:30", -74).toISOString(),
+      "2025-10-31T19:30:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Local solar position and day-phase model.
+ *
+ * Computes the sun's elevation from coordinates and time using the NOAA
+ * solar equations, entirely offline. Phases follow the real sun instead
+ * of fixed clock hours, so Reykjavik in June and Quito get different
+ * dawns, golden hours and twilights.
+ */
+
+import type { WeatherData } from "@/types/weather";
+
+/**
+ * Phase of the solar day.
+ *
+ * - night: Sun more than 6° below the horizon
+ * - dawn: Morning civil twilight through the first low sun (-6° to 6°, rising)
+ * - day: Sun at least 6° above the horizon
+ * - golden-hour: Low evening sun (sunset to 6°, setting)
+ * - twilight: Evening civil twilight (-6° to sunset, setting)
+ */
+export type DayPhase = "night" | "dawn" | "day" | "golden-hour" | "twilight";
+
+/**
+ * Sun position at a moment and place.
+ */
+export interface SolarPosition {
+  /** Elevation above the horizon in degrees (negative below) */
+  elevation: number;
+
+  /** Whether the sun is rising (before solar noon) */
+  isRising: boolean;
+}
+
+/** Elevation of the sun's center at apparent sunrise/sunset (refraction + disc) */
+const SUNRISE_ELEVATION = -0.833;
+
+/** Elevation bounding civil twilight */
+const CIVIL_TWILIGHT_ELEVATION = -6;
+
+/** Elevation below which low "golden" light ends */
+const GOLDEN_HOUR_ELEVATION = 6;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Calculates the sun's position (NOAA solar calculator equations).
+ *
+ * @param date - Moment to evaluate (absolute time)
+ * @param lat - Latitude in degrees
+ * @param lon - Longitude in degrees (east positive)
+ * @returns Solar elevation and whether the sun is rising
+ *
+ * @example
+ * getSolarPosition(new Date("2025-06-21T12:00:00Z"), 51.48, 0)
+ * // { elevation: ~62, isRising: false }
+ */
+export function getSolarPosition(
+  date: Date,
+  lat: number,
+  lon: number
+): SolarPosition {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525; // Julian centuries since J2000
+
+  const meanLongitude =
+    (((280.46646 + t * (36000.76983 + t * 0.0003032)) % 360) + 360) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const equationOfCenter =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(
+    meanLongitude + equationOfCenter - 0.00569 - 0.00478 * Math.sin(omega)
+  );
+
+  const meanObliquity =
+    23 +
+    (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(apparentLongitude)
+  );
+
+  // Equation of time in minutes
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  const utcMinutes =
+    date.getUTCHours() * 60 +
+    date.getUTCMinutes() +
+    date.getUTCSeconds() / 60;
+  const trueSolarMinutes =
+    (((utcMinutes + equationOfTime + 4 * lon) % 1440) + 1440) % 1440;
+  const hourAngle = trueSolarMinutes / 4 - 180; // Negative before solar noon
+
+  const latitude = toRadians(lat);
+  const cosZenith =
+    Math.sin(latitude) * Math.sin(declination) +
+    Math.cos(latitude) * Math.cos(declination) * Math.cos(toRadians(hourAngle));
+  const zenith = toDegrees(Math.acos(Math.max(-1, Math.min(1, cosZenith))));
+
+  return {
+    elevation: 90 - zenith,
+    isRising: hourAngle < 0,
+  };
+}
+
+/**
+ * Classifies a solar position into a day phase.
+ *
+ * @param position - Solar elevation and direction
+ * @returns Day phase
+ */
+export function getPhaseFromPosition({
+  elevation,
+  isRising,
+}: SolarPosition): DayPhase {
+  if (elevation < CIVIL_TWILIGHT_ELEVATION) return "night";
+  if (elevation >= GOLDEN_HOUR_ELEVATION) return "day";
+  if (isRising) return "dawn";
+  return elevation >= SUNRISE_ELEVATION ? "golden-hour" : "twilight";
+}
+
+/**
+ * Converts a location's local wall-clock time to an absolute Date.
+ *
+ * Uses the UTC offset reported with the weather data. Without one, the
+ * offset is estimated from longitude (15° per hour), which is close
+ * enough for the sun's phase in most places.
+ *
+ * @param localtime - ISO 8601 local timestamp without offset (e.g., "2025-10-31T14:30")
+ * @param lon - Longitude in degrees
+ * @param utcOffsetSeconds - Optional UTC offset of the location in seconds
+ * @returns Absolute moment
+ */
+export function localTimeToDate(
+  localtime: string,
+  lon: number,
+  utcOffsetSeconds?: number
+): Date {
+  const [datePart, timePart = "00:00"] = localtime.split("T");
+  const [year, month, day] = datePart.split("-").map(Number);
+  const [hours, minutes = 0] = timePart.split(":").map(Number);
+
+  const offsetSeconds = utcOffsetSeconds ?? Math.round(lon / 15) * 3600;
+
+  return new Date(
+    Date.UTC(year, month - 1, day, hours, Math.floor(minutes)) -
+      offsetSeconds * 1000
+  );
+}
+
+/**
+ * Gets the day phase for a location's current weather report.
+ *
+ * @param weatherData - Weather data with coordinates and local time
+ * @returns Day phase at the reported local time
+ *
+ * @example
+ * getWeatherDayPhase(weatherData) // "golden-hour"
+ */
+export function getWeatherDayPhase(weatherData: WeatherData): DayPhase {
+  const { lat, lon } = weatherData.biome.coordinates;
+  const date = localTimeToDate(
+    weatherData.location.localtime,
+    lon,
+    weatherData.location.utc_offset_seconds
+  );
+
+  return getPhaseFromPosition(getSolarPosition(date, lat, lon));
+}
@@ -1,80 +1,119 @@
 /**
  * Biome and weather to sound layer mapping system.
  *
- * Defines which audio files play for each biome type, time of day,
- * and weather condition. The mapping prioritizes realistic ambient
- * soundscapes with base layers, weather-reactive layers, and time accents.
+ * Evaluates the biome soundscape rule files (lib/data/soundscapes/) for
+ * the current time of day and weather, then applies the treatments that
+ * hold for every biome: dawn chorus, climate limits, snow, fog and wind
+ * placement.
  */
 
 import type { BiomeType } from './biomeDetector';
 import type { TimeOfDay } from './biomeUtils';
-import type { SoundLayer } from '@/types/audio';
+import type { DayPhase } from './solar';
+import { getSoundscapeSeed, seededRandom, simpleHash } from './biomeUtils';
+import type {
+  AccentSpec,
+  SoundId,
+  SoundLayer,
+  WeatherIntensity,
+} from '@/types/audio';
 import { mapWeatherToIntensity, calculateWindVolume } from './audioUtils';
+import {
+  evaluateAccentRules,
+  evaluateLayerRules,
+  getSoundscapeRules,
+  type CompiledClimateRule,
+  type RuleVariables,
+  type SoundscapeRules,
+} from './soundscapeRules';
 
 /**
- * Probability of including bird sounds (30% chance).
- * Birds are used sparingly to avoid overuse.
+ * Minimum wind speed (km/h) for the wind bearing to place layers.
+ * Below this, reported directions are noise and layers stay centered.
  */
-const BIRD_SOUND_PROBABILITY = 0.3;
+const WIND_PLACEMENT_MIN_KPH = 5;
 
 /**
- * Probability of including cricket layers (30% chance).
- * Keeps nocturnal accents from becoming repetitive.
+ * Matches wind bed layers (including desert wind).
  */
-const CRICKET_SOUND_PROBABILITY = 0.3;
+const WIND_LAYER_PATTERN = /^(desert-)?wind[-_]/;
 
 /**
- * Probability of including frog layers (30% chance).
- * Prevents night soundscapes from sounding identical.
+ * Matches insect and frog layers, which fall silent in snow.
  */
-const FROG_SOUND_PROBABILITY = 0.3;
+const COLD_SILENCED_PATTERN = /cricket|cicada|frogs/;
 
 /**
- * Determines if bird sounds should be included based on probability.
- *
- * @returns True if birds should be included (30% of the time)
+ * Maximum stereo lean of rain layers toward the windward side.
+ * Rain is a wide bed, so it only tilts rather than moving to one point.
  */
-function shouldIncludeBirds(): boolean {
-  return Math.random() < BIRD_SOUND_PROBABILITY;
-}
+const RAIN_WIND_PAN = 0.35;
+
+/**
+ * Wind beds added in snowfall (see applySnowTreatment): soft wind through
+ * trees, or open-field gusts in a blizzard.
+ */
+const SNOW_WIND_LIGHT: SoundId = 'wind_forest_medium';
+const SNOW_WIND_HEAVY: SoundId = 'wind_field_strong';
+
+/**
+ * Condensation dripping from eaves and branches, added in fog.
+ */
+const FOG_DRIP: SoundId = 'drops-bucket-collecting-drips_light_close';
 
 /**
- * Determines if cricket sounds should be included based on probability.
+ * Rolls a number between 0 and 1 for an optional layer.
+ *
+ * Each layer gets its own deterministic roll (salted by name, so adding
+ * a roll never shifts the others).
  *
- * @returns True if crickets should be included (30% of the time)
+ * @param seed - Soundscape seed
+ * @param salt - Layer name distinguishing this roll
+ * @returns Float between 0 and 1
  */
-function shouldIncludeCrickets(): boolean {
-  return Math.random() < CRICKET_SOUND_PROBABILITY;
+function rollLayer(seed: number, salt: string): number {
+  return seededRandom(simpleHash(`${seed}:${salt}`));
 }
 
 /**
- * Determines if frog sounds should be included based on probability.
- *
- * @returns True if frogs should be included (30% of the time)
+ * Optional conditions refining the soundscape beyond biome and weather code.
  */
-function shouldIncludeFrogs(): boolean {
-  return Math.random() < FROG_SOUND_PROBABILITY;
+export interface SoundLayerOptions {
+  /** Wind bearing in degrees (direction the wind comes from) */
+  windDirection?: number;
+
+  /** Place and local time the soundscape is for (seeds the random choices) */
+  location?: { lat: number; lon: number; localtime: string };
+
+  /** Seed overriding the one derived from the location (see getSoundscapeSeed) */
+  seed?: number;
+
+  /** Solar day phase (adds the dawn chorus at dawn) */
+  dayPhase?: DayPhase;
+
+  /** Air temperature in °C (gates insects, freezes lakes) */
+  temperatureC?: number;
 }
 
 /**
  * Gets the complete sound layer configuration for current conditions.
  *
- * Sound layers are prioritized as follows:
- * 1. Base ambient (always present, defines the biome soundscape)
- * 2. Weather layers (rain, thunder - conditional on weather code)
- * 3. Wind layers (volume scaled by wind speed)
- * 4. Time accents (crickets at night, church bells, etc.)
- * 5. Bird sounds (30% probability during daytime)
+ * The biome's rule file decides the layers and their volumes; optional
+ * layers such as birds are rolled from the file's probabilities.
+ * Dawn chorus, climate limits, snow, fog and wind placement are applied
+ * afterwards. One-shot events like thunder and church bells come from
+ * getAccentSpecs.
  *
  * @param biome - Detected biome type
  * @param timeOfDay - Current time classification (day/evening/night)
  * @param weatherCode - WMO weather code (0-99)
  * @param windSpeedKph - Wind speed in km/h
  * @param humidity - Relative humidity percentage (0-100)
+ * @param options - Optional wind direction, location or seed, day phase and temperature
  * @returns Array of sound layers to play simultaneously
  *
  * @example
- * getSoundLayers('forest', 'evening', 0, 15, 65)
+ * getSoundLayers('forest', 'evening', 0, 15, 65, { temperatureC: 24 })
  * // Returns: [
  * //   { soundId: 'birds-forest_light_far', volume: 0.6, category: 'base', ... }, // (30% chance)
  * //   { soundId: 'wind_forest_medium', volume: 0.4, category: 'base', ... },
@@ -86,809 +125,385 @@ export function getSoundLayers(
   timeOfDay: TimeOfDay,
   weatherCode: number,
   windSpeedKph: number,
-  _humidity: number,
+  humidity: number,
+  options: SoundLayerOptions = {},
 ): SoundLayer[] {
-  const layers: SoundLayer[] = [];
+  const { windDirection, location, dayPhase, temperatureC } = options;
+
+  // Same place and time slot, same choices (without a location, the same
+  // biome and slot)
+  const seed =
+    options.seed ??
+    getSoundscapeSeed(
+      location?.lat ?? 0,
+      location?.lon ?? 0,
+      location?.localtime ?? '',
+      dayPhase ?? timeOfDay
+    );
+  const rules = getSoundscapeRules(biome);
   const weatherIntensity = mapWeatherToIntensity(weatherCode);
-  void _humidity;
-
-  // Determine if this soundscape should include birds
-  const includeBirds = shouldIncludeBirds();
-  const includeCrickets = shouldIncludeCrickets();
-  const includeFrogs = shouldIncludeFrogs();
-
-  // Delegate to biome-specific mapping functions
-  switch (biome) {
-    case 'city':
-      layers.push(
-        ...getCitySounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-
-    case 'forest':
-      layers.push(
-        ...getForestSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-
-    case 'field':
-      layers.push(
-        ...getFieldSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-
-    case 'beach':
-      layers.push(
-        ...getBeachSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-
-    case 'lake':
-      layers.push(
-        ...getLakeSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-          includeFrogs,
-        ),
-      );
-      break;
-
-    case 'ocean':
-      layers.push(
-        ...getOceanSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-
-    case 'desert':
-      layers.push(
-        ...getDesertSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-        ),
-      );
-      break;
-  }
-
-  return layers;
-}
-
-/**
- * City biome soundscape.
- *
- * Base: Traffic ambience, urban chatter
- * Weather: City rain/traffic mix
- * Time: Church bells (morning/evening in some areas)
- *
- * Cities have constant ambient noise regardless of time of day.
- */
-function getCitySounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  _includeBirds: boolean,
-  _includeCrickets: boolean,
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-  const windVolume = calculateWindVolume(windSpeedKph);
-  const isNight = timeOfDay === 'night';
-  const isEvening = timeOfDay === 'evening';
-  const isDry = !weather.hasPrecipitation;
-
-  void _includeBirds;
-  void _includeCrickets;
-
-  // Core traffic bed
-  layers.push({
-    soundId: 'traffic_medium_close',
-    volume: isNight ? 0.4 : 0.55,
-    loop: true,
-    category: 'base',
-  });
-
-  // Layer distant traffic for depth and width
-  layers.push({
-    soundId: 'traffic_medium_far',
-    volume: 0.28,
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
-  });
-
-  // Pedestrian ambience - calmer at night or during heavy rain
-  if (!isNight && (isDry || weather.rain < 0.4)) {
-    layers.push({
-      soundId: 'chatter-footsteps_medium',
-      volume: 0.35,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 3,
-    });
+  const variables: RuleVariables = {
+    ...getBaseVariables(timeOfDay, weatherIntensity, windSpeedKph),
+    humidity,
+  };
+
+  // Roll optional layers
+  for (const { name, probability } of rules.rolls) {
+    variables[name] =
+      rollLayer(seed, name) < Number(probability.evaluate(variables));
   }
 
-  // Passing cars add movement during drier periods
-  if (isDry) {
-    layers.push({
-      soundId: 'cars-passing_medium_close',
-      volume: 0.25,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 2,
-      startDelay: 6,
-    });
-
-    layers.push({
-      soundId: 'cars-passing_low_far',
-      volume: 0.18,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 5,
-      startDelay: 14,
-    });
-  }
-
-  // Weather: rain-soaked asphalt blend
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain-wind-city-traffic_medium_far',
-      volume: Math.min(0.75, 0.45 + weather.rain * 0.6),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-
-    // Interior drip for sheltered spaces
-    layers.push({
-      soundId: 'drops-bucket-collecting-drips_light_close',
-      volume: 0.18,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 6,
-      startDelay: 20,
-    });
-  }
+  const layers = evaluateLayerRules(rules, variables);
 
-  // Sky and vertical accents when skies are clearer
-  if (isDry && weather.thunder === 0 && windSpeedKph < 25) {
-    layers.push({
-      soundId: 'plane_overhead-light',
-      volume: 0.22,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 4,
-      startDelay: 30,
-    });
+  if (dayPhase === 'dawn') {
+    addDawnChorus(layers, rules, weatherIntensity);
   }
 
-  // Breezy residential touches
-  if (windVolume > 0.35 && isDry) {
-    layers.push({
-      soundId: 'windchimes_close',
-      volume: Math.min(0.22, windVolume * 0.35),
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 6,
-      startDelay: 18,
-    });
+  let treatedLayers = applyClimateRules(layers, rules.climate, temperatureC);
+  if (weatherIntensity.snow) {
+    treatedLayers = applySnowTreatment(
+      treatedLayers,
+      weatherIntensity,
+      windSpeedKph,
+    );
   }
-
-  // Late-night interior hum
-  if (isNight) {
-    layers.push({
-      soundId: 'fan_close',
-      volume: 0.2,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 8,
-    });
+  if (weatherIntensity.fog) {
+    treatedLayers = applyFogTreatment(treatedLayers);
   }
 
-  // Cultural accent at sunrise/sunset
-  if (isEvening) {
-    layers.push({
-      soundId: 'church-bells_medium_far',
-      volume: 0.22,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 3,
-      startDelay: 10,
-    });
+  if (windDirection !== undefined && windSpeedKph >= WIND_PLACEMENT_MIN_KPH) {
+    return applyWindPlacement(treatedLayers, windDirection);
   }
 
-  return layers;
+  return treatedLayers;
 }
 
 /**
- * Forest biome soundscape.
- *
- * Base: Forest birds (30% chance), rustling wind through trees
- * Weather: Rain through canopy, distant thunder
- * Time: Crickets (30% chance) and frogs (30% chance) at night
+ * Builds the time, weather and wind variables shared by layer and accent rules.
  *
- * Forests are quieter at night with nocturnal sounds.
+ * @param timeOfDay - Current time classification (day/evening/night)
+ * @param weather - Weather intensity
+ * @param windSpeedKph - Wind speed in km/h
+ * @returns Rule variables
  */
-function getForestSounds(
+function getBaseVariables(
   timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
+  weather: WeatherIntensity,
   windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean,
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-  const windVolume = calculateWindVolume(windSpeedKph);
-  const isNight = timeOfDay === 'night';
-  const isEvening = timeOfDay === 'evening';
-
-  // Base: Birds + rustling canopy (daytime, optional)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds-forest_light_far',
-      volume: 0.28,
-      loop: true,
-      category: 'base',
-    });
-
-    layers.push({
-      soundId: 'wind-light_birds_medium',
-      volume: 0.22,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 5,
-      startDelay: 10,
-    });
-  }
-
-  // Base: Forest wind bed
-  layers.push({
-    soundId: 'wind_forest_medium',
-    volume: Math.max(0.3, windVolume * 0.7),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
-  });
-
-  // Weather: Rain through canopy + dripping leaves
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_medium',
-      volume: Math.min(0.65, weather.rain * 0.8),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
-    });
-
-    layers.push({
-      soundId: 'wind-leaves_rustling-medium_rain_light',
-      volume: Math.min(0.35, 0.18 + weather.rain * 0.4),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 7,
-    });
-  }
-
-  // Weather: Thunder variants
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId:
-        weather.thunder > 0.6
-          ? 'thunder_medium_close'
-          : 'thunder_light_far_rain_medium',
-      volume: Math.min(0.5, weather.thunder * 0.65),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
-  }
-
-  // Evening cicadas / night insects (30% chance)
-  if ((isEvening || isNight) && includeCrickets) {
-    layers.push({
-      soundId: 'cicada_heavy',
-      volume: isNight ? 0.32 : 0.24,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 8,
-    });
-  }
-
-  return layers;
+): RuleVariables {
+  return {
+    isDay: timeOfDay === 'day',
+    isEvening: timeOfDay === 'evening',
+    isNight: timeOfDay === 'night',
+    rain: weather.rain,
+    thunder: weather.thunder,
+    snowfall: weather.snowfall,
+    snow: weather.snow,
+    fog: weather.fog,
+    hasPrecipitation: weather.hasPrecipitation,
+    isDry: !weather.hasPrecipitation,
+    windSpeed: windSpeedKph,
+    windVolume: calculateWindVolume(windSpeedKph),
+  };
 }
 
 /**
- * Field/grassland biome soundscape.
+ * Applies a biome's temperature limits to its layers.
  *
- * Base: Distant birds (30% chance), wind through grass
- * Weather: Light rain on vegetation, distant thunder
- * Time: Summer crickets at evening/night (30% chance)
+ * Limits are skipped when the temperature is unknown.
  *
- * Open fields emphasize wind and distant sounds.
+ * @param layers - Layers from the biome rules
+ * @param rules - Climate rules for the biome
+ * @param temperatureC - Optional air temperature in °C
+ * @returns Layers that suit the climate
+ *
+ * @example
+ * applyClimateRules(layers, rules.climate, -10)  // No crickets at -10 °C
  */
-function getFieldSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean,
+function applyClimateRules(
+  layers: SoundLayer[],
+  rules: CompiledClimateRule[],
+  temperatureC: number | undefined,
 ): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-  const windVolume = calculateWindVolume(windSpeedKph);
-  const isNight = timeOfDay === 'night';
-
-  // Base: Distant birds (daytime, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds_far',
-      volume: 0.05,
-      loop: true,
-      category: 'base',
-    });
-
-    layers.push({
-      soundId: 'wind-leaves_rustling-light_birds_light',
-      volume: 0.18,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 4,
-      startDelay: 8,
-    });
-  }
-
-  // Base: Strong wind through grass/field (prominent in open areas)
-  layers.push({
-    soundId: windSpeedKph > 20 ? 'wind_field_strong' : 'wind_grass_strong',
-    volume: Math.max(0.4, windVolume * 0.9), // Wind is more prominent in fields
-    loop: true,
-    category: 'base',
-    fadeInDuration: 3,
-  });
-
-  // Weather: Light rain on grass
-  if (weather.hasPrecipitation) {
-    const rainSoundId = weather.rain > 0.6 ? 'rain_medium_close' : 'rain_light';
-    layers.push({
-      soundId: rainSoundId,
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-  }
-
-  // Weather: Distant thunder
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId:
-        weather.thunder > 0.6
-          ? 'thunder_medium_close'
-          : 'thunder_rolling_light_far',
-      volume: Math.min(0.45, weather.thunder * 0.55),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
-  }
-
-  // Time accent: Summer crickets (evening/night, 30% chance)
-  if ((timeOfDay === 'evening' || timeOfDay === 'night') && includeCrickets) {
-    layers.push({
-      soundId: 'desert-cricket_heavy_close',
-      volume: isNight ? 0.28 : 0.2,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 10,
-    });
-  }
-
-  return layers;
+  if (temperatureC === undefined) return layers;
+
+  return layers.filter((layer) =>
+    rules.every(
+      (rule) =>
+        !rule.pattern.test(layer.soundId) ||
+        ((rule.minTemperatureC === undefined ||
+          temperatureC >= rule.minTemperatureC) &&
+          (rule.maxTemperatureC === undefined ||
+            temperatureC <= rule.maxTemperatureC)),
+    ),
+  );
 }
 
 /**
- * Beach biome soundscape.
+ * Reshapes a biome's layers for snowfall.
  *
- * Base: Ocean waves (close), coastal wind with/without birds (30% chance)
- * Weather: Rain on beach, thunder
- * Time: No specific time accents (waves constant)
+ * Snow cover absorbs sound: biome wind beds are turned down and a soft
+ * wind bed takes over (open-field gusts in heavy snow or strong wind).
+ * Insects and frogs are silent in the cold. The high-frequency rolloff
+ * on the master chain comes from getWeatherDamping.
  *
- * Beaches have rhythmic wave patterns and coastal ambience.
+ * @param layers - Layers from the biome mapping
+ * @param weather - Weather intensity (snow must be set)
+ * @param windSpeedKph - Wind speed in km/h
+ * @returns Layers adjusted for snow
  */
-function getBeachSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
+function applySnowTreatment(
+  layers: SoundLayer[],
+  weather: WeatherIntensity,
   windSpeedKph: number,
-  includeBirds: boolean,
-  _includeCrickets: boolean,
 ): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  void _includeCrickets;
-
-  // Base: Ocean waves (medium, close enough to hear detail)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  const waveBaseId =
-    windSpeedKph > 25 ? 'waves_medium_close_2' : 'waves_medium_close';
-  layers.push({
-    soundId: waveBaseId,
-    volume: 0.64,
-    loop: true,
-    category: 'base',
-  });
-
-  // Layer distant surf for width
-  layers.push({
-    soundId: 'waves_light_far',
-    volume: 0.28,
+  const snowLayers = layers
+    .filter((layer) => !COLD_SILENCED_PATTERN.test(layer.soundId))
+    .map((layer) =>
+      WIND_LAYER_PATTERN.test(layer.soundId)
+        ? { ...layer, volume: layer.volume * 0.6 }
+        : layer,
+    );
+
+  const isBlizzard = weather.snowfall >= 0.7 || windSpeedKph >= 30;
+  return addTreatmentLayer(snowLayers, {
+    soundId: isBlizzard ? SNOW_WIND_HEAVY : SNOW_WIND_LIGHT,
+    volume: Math.min(0.6, 0.25 + weather.snowfall * 0.35),
     loop: true,
-    category: 'base',
+    category: 'weather',
     fadeInDuration: 8,
   });
-
-  // Base: Coastal wind with/without birds (30% chance for birds during daytime)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'wind_coastal_birds',
-      volume: Math.max(0.22, windVolume * 0.4),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 4,
-    });
-  } else {
-    // Night or no birds: Just coastal wind
-    layers.push({
-      soundId: 'wind_coastal_medium_far',
-      volume: Math.max(0.35, windVolume * 0.55),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 4,
-    });
-  }
-
-  // Weather: Rain on beach
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: weather.rain > 0.6 ? 'rain_medium_close' : 'rain_light',
-      volume: Math.min(0.55, 0.35 + weather.rain * 0.6),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-  }
-
-  // Weather: Thunder over ocean
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId:
-        weather.thunder > 0.6 ? 'thunder_medium_close' : 'thunder_light_far',
-      volume: Math.min(0.6, weather.thunder * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
-  }
-
-  return layers;
 }
 
 /**
- * Lake biome soundscape.
+ * Reshapes a biome's layers for fog.
  *
- * Base: Small waves lapping, gentle wind, birds (30% chance)
- * Weather: Rain on water, distant thunder
- * Time: Frogs at night
+ * Fog forms in still air, so wind beds are turned down for a hushed,
+ * close-in feel, and condensation drips close by. Fog bells at the
+ * coast are accents (see getAccentSpecs).
  *
- * Lakes are calmer than ocean, with nocturnal wildlife.
+ * @param layers - Layers from the biome mapping
+ * @returns Layers adjusted for fog
  */
-function getLakeSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean,
-  includeFrogs: boolean,
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Small waves lapping at shore
-  layers.push({
-    soundId: 'waves_small_close',
-    volume: 0.5,
-    loop: true,
-    category: 'base',
-  });
-
-  layers.push({
-    soundId: 'waves_light_close',
-    volume: 0.25,
-    loop: true,
-    category: 'base',
-    fadeInDuration: 7,
-  });
+function applyFogTreatment(layers: SoundLayer[]): SoundLayer[] {
+  const fogLayers = layers.map((layer) =>
+    WIND_LAYER_PATTERN.test(layer.soundId)
+      ? { ...layer, volume: layer.volume * 0.7 }
+      : layer,
+  );
 
-  // Base: Gentle wind (lakes are more sheltered)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_autumn', // Softer wind sound
-    volume: Math.max(0.25, windVolume * 0.5),
+  return addTreatmentLayer(fogLayers, {
+    soundId: FOG_DRIP,
+    volume: 0.14,
     loop: true,
-    category: 'base',
-    fadeInDuration: 5,
+    category: 'weather',
+    fadeInDuration: 10,
   });
+}
 
-  // Base: Birds (daytime, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds_far',
-      volume: 0.2,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 3,
-    });
-
-    layers.push({
-      soundId: 'wind-leaves_rustling-light_birds_light-2',
-      volume: 0.16,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 5,
-      startDelay: 12,
-    });
+/**
+ * Adds a snow or fog layer, or turns up the biome's own layer when it
+ * already plays the same recording.
+ *
+ * @param layers - Treated layers
+ * @param layer - Layer to add
+ * @returns Layers including the treatment layer
+ */
+function addTreatmentLayer(
+  layers: SoundLayer[],
+  layer: SoundLayer,
+): SoundLayer[] {
+  if (!layers.some((existing) => existing.soundId === layer.soundId)) {
+    return [...layers, layer];
   }
 
-  // Weather: Rain on lake water
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_light',
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
-    });
-
-    layers.push({
-      soundId: 'stream_light_close',
-      volume: Math.min(0.22, 0.1 + weather.rain * 0.3),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 8,
-    });
-  }
+  return layers.map((existing) =>
+    existing.soundId === layer.soundId
+      ? { ...existing, volume: Math.max(existing.volume, layer.volume) }
+      : existing,
+  );
+}
 
-  // Weather: Distant thunder
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_rolling_light_far',
-      volume: Math.min(0.5, weather.thunder * 0.6),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
-  }
+/**
+ * Gets the master-chain high-frequency damping for a weather code.
+ *
+ * Snow absorbs high frequencies more the heavier it falls; fog gets a
+ * slight softening. Clear weather and rain stay flat.
+ *
+ * @param weatherCode - WMO weather code (0-99)
+ * @returns High-shelf gain in dB (0 = flat, negative = damped)
+ *
+ * @example
+ * getWeatherDamping(75)  // Heavy snow → about -11 dB
+ * getWeatherDamping(0)   // Clear → 0
+ */
+export function getWeatherDamping(weatherCode: number): number {
+  const weather = mapWeatherToIntensity(weatherCode);
 
-  // Time accent: Frogs at night (30% chance)
-  if (timeOfDay === 'night' && includeFrogs) {
-    layers.push({
-      soundId: 'frogs_close',
-      volume: 0.35,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 12,
-    });
-  } else if (
-    (timeOfDay === 'evening' || timeOfDay === 'night') &&
-    includeCrickets
-  ) {
-    layers.push({
-      soundId: 'cicada_heavy',
-      volume: 0.22,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 10,
-    });
+  if (weather.snow) {
+    return -(3 + weather.snowfall * 9);
   }
-
-  return layers;
+  if (weather.fog) {
+    return -2;
+  }
+  return 0;
 }
 
 /**
- * Ocean biome soundscape.
+ * Adds the dawn chorus to a biome's layers.
  *
- * Base: Medium-far waves, coastal wind
- * Weather: Rain, thunder
- * Time: No specific accents (ocean is constant)
+ * Birds are included regardless of their usual roll, since dawn is
+ * when they're hardest to miss. If the biome already plays the same
+ * recording, it's turned up instead of doubled. Rain or snow quiets the chorus.
  *
- * Open ocean has distant wave sounds and stronger wind.
+ * @param layers - Layers from the biome rules (modified in place)
+ * @param rules - Biome rules
+ * @param weather - Weather intensity
  */
-function getOceanSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  _includeCrickets: boolean,
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
+function addDawnChorus(
+  layers: SoundLayer[],
+  rules: SoundscapeRules,
+  weather: WeatherIntensity,
+): void {
+  const chorus = rules.dawnChorus;
+  if (!chorus) return;
+
+  const volume = weather.hasPrecipitation ? chorus.volume * 0.5 : chorus.volume;
+  const existing = layers.find((layer) => layer.soundId === chorus.soundId);
+
+  if (existing) {
+    existing.volume = Math.max(existing.volume, volume);
+    return;
+  }
 
-  void _includeCrickets;
-  // Base: Distant ocean waves
-  layers.push({
-    soundId: 'waves_medium_far',
-    volume: 0.62,
-    loop: true,
-    category: 'base',
-  });
   layers.push({
-    soundId: 'waves_light_close',
-    volume: 0.26,
+    soundId: chorus.soundId,
+    volume,
     loop: true,
-    category: 'base',
-    fadeInDuration: 9,
+    category: 'accent',
+    fadeInDuration: 10,
   });
+}
 
-  // Base: Coastal wind (ocean winds tend to be steady)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_coastal_medium_far',
-    volume: Math.max(0.4, windVolume * 0.7),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
+/**
+ * Positions wind-driven layers from the wind bearing.
+ *
+ * The listener faces north, so a bearing maps directly to an azimuth:
+ * a westerly (270°) arrives from the left. Wind is placed upwind with
+ * HRTF; rain leans toward the windward side in stereo. Layers that
+ * already carry an explicit position are left alone.
+ * (Thunder is an accent, see getAccentSpecs.)
+ *
+ * @param layers - Layers from the biome mapping
+ * @param windDirection - Wind bearing in degrees (direction the wind comes from)
+ * @returns Layers with wind placement applied
+ */
+function applyWindPlacement(
+  layers: SoundLayer[],
+  windDirection: number,
+): SoundLayer[] {
+  const azimuth = bearingToAzimuth(windDirection);
+  const rainPan =
+    Math.round(Math.sin((azimuth * Math.PI) / 180) * RAIN_WIND_PAN * 100) /
+    100;
+
+  return layers.map((layer) => {
+    if (
+      layer.pan !== undefined ||
+      layer.azimuth !== undefined ||
+      layer.distance !== undefined
+    ) {
+      return layer;
+    }
+
+    if (layer.soundId.includes('rain')) {
+      return { ...layer, pan: rainPan };
+    }
+    if (WIND_LAYER_PATTERN.test(layer.soundId)) {
+      return { ...layer, azimuth };
+    }
+
+    return layer;
   });
+}
 
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'wind_coastal_birds',
-      volume: Math.max(0.2, windVolume * 0.35),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 6,
-      startDelay: 12,
-    });
-  }
-
-  // Weather: Rain on ocean
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: weather.rain > 0.6 ? 'rain_medium_close' : 'rain_medium',
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-  }
-
-  // Weather: Thunder over water
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId:
-        weather.thunder > 0.7
-          ? 'thunder_medium_close'
-          : 'thunder_light_far_rain_medium',
-      volume: Math.min(0.65, weather.thunder * 0.8),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
-  }
-
-  return layers;
+/**
+ * Converts a compass bearing to a listener azimuth (-180 to 180, 0 = north/front).
+ *
+ * @param bearing - Compass bearing in degrees
+ * @returns Azimuth in degrees, negative to the left
+ */
+function bearingToAzimuth(bearing: number): number {
+  return ((((bearing + 180) % 360) + 360) % 360) - 180;
 }
 
 /**
- * Desert biome soundscape.
+ * Gets the procedural one-shot accents for current conditions.
+ *
+ * Accents fire at random intervals instead of looping, so events like
+ * thunder, bells and passing cars never repeat on a fixed cycle.
+ * Rates are average shots per minute, set by the biome's rule file;
+ * thunder gets more frequent (and closer) as WeatherIntensity.thunder rises.
  *
- * Base: Strong wind (minimal other sounds), sparse birds (30% chance)
- * Weather: Rare rain, thunder
- * Time: Minimal variation (deserts are sparse)
+ * @param biome - Detected biome type
+ * @param timeOfDay - Current time classification (day/evening/night)
+ * @param weatherCode - WMO weather code (0-99)
+ * @param windSpeedKph - Wind speed in km/h
+ * @param windDirection - Optional wind bearing in degrees (storms arrive from upwind)
+ * @returns Accent definitions for the audio engine
  *
- * Deserts emphasize silence and wind, with sparse accents.
+ * @example
+ * getAccentSpecs('beach', 'night', 95, 30, 270)
+ * // Returns: [
+ * //   { soundId: 'thunder_light_far', ratePerMinute: 1.7, pan: [-0.85, -0.35], ... }
+ * // ]
  */
-function getDesertSounds(
+export function getAccentSpecs(
+  biome: BiomeType,
   timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
+  weatherCode: number,
   windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean,
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Wind (primary desert sound)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'desert-wind_light',
-    volume: Math.max(0.32, windVolume * 0.7),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 3,
+  windDirection?: number,
+): AccentSpec[] {
+  const weather = mapWeatherToIntensity(weatherCode);
+  const hasWindBearing =
+    windDirection !== undefined && windSpeedKph >= WIND_PLACEMENT_MIN_KPH;
+  const windPan = hasWindBearing
+    ? Math.sin((bearingToAzimuth(windDirection) * Math.PI) / 180)
+    : 0;
+
+  return evaluateAccentRules(getSoundscapeRules(biome), {
+    ...getBaseVariables(timeOfDay, weather, windSpeedKph),
+    hasWindBearing,
+    windPan,
   });
-  layers.push({
-    soundId: 'wind_field_strong',
-    volume: Math.max(0.2, windVolume * 0.45),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 6,
-    startDelay: 10,
-  });
-
-  // Optional: Very subtle distant birds (day only, low volume, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'desert-birds_bugs_light',
-      volume: 0.18,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 5,
-    });
-  }
-
-  if ((timeOfDay === 'evening' || timeOfDay === 'night') && includeCrickets) {
-    layers.push({
-      soundId: 'desert-cricket_heavy_close',
-      volume: timeOfDay === 'night' ? 0.26 : 0.2,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 9,
-    });
-  }
-
-  // Weather: Rain (rare in desert, but dramatic when it occurs)
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: weather.rain > 0.4 ? 'rain_medium_close' : 'rain_light',
-      volume: Math.min(0.5, weather.rain * 0.65),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
-    });
-  }
-
-  // Weather: Thunder (desert storms are intense)
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId:
-        weather.thunder > 0.7
-          ? 'thunder_medium_close'
-          : 'thunder_rolling_light_far',
-      volume: Math.min(0.7, weather.thunder * 0.85),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
-  }
+}
 
-  return layers;
+/**
+ * Gets every sound a biome can play in any time of day or weather.
+ *
+ * Used to preload a biome and to release buffers of the previous one.
+ *
+ * @param biome - Biome type
+ * @returns Unique sound IDs of the biome's layers, accents, dawn chorus and snow and fog beds
+ *
+ * @example
+ * getBiomeSoundIds('desert')
+ * // → ['desert-wind_light', 'wind_field_strong', ..., 'drops-bucket-collecting-drips_light_close']
+ */
+export function getBiomeSoundIds(biome: BiomeType): SoundId[] {
+  const rules = getSoundscapeRules(biome);
+
+  return [
+    ...new Set([
+      ...rules.layers.map((layer) => layer.soundId),
+      ...rules.accents.map((accent) => accent.soundId),
+      ...(rules.dawnChorus ? [rules.dawnChorus.soundId] : []),
+      SNOW_WIND_LIGHT,
+      SNOW_WIND_HEAVY,
+      FOG_DRIP,
+    ]),
+  ];
 }
 
 /**
@@ -0,0 +1,513 @@
+/**
+ * Soundscape rule engine.
+ *
+ * Loads the per-biome rule files from lib/data/soundscapes/, validates
+ * them against the schema in types/soundscape.ts and evaluates them into
+ * sound layers and accents for the current conditions. Sound designers
+ * tune a mix by editing JSON; run `npm run validate-soundscapes` to check
+ * the files without starting the app.
+ */
+
+import type { BiomeType } from './biomeDetector';
+import { soundExists, SOUND_CATEGORIES } from './audioUtils';
+import {
+  compileRuleExpression,
+  type RuleExpression,
+  type RuleValue,
+} from './ruleExpression';
+import type {
+  AccentSpec,
+  SoundCategory,
+  SoundId,
+  SoundLayer,
+} from '@/types/audio';
+import type {
+  AccentRule,
+  ClimateRuleDefinition,
+  DawnChorusRule,
+  LayerRule,
+  SoundscapeRuleFile,
+} from '@/types/soundscape';
+import beachRules from './data/soundscapes/beach.json';
+import cityRules from './data/soundscapes/city.json';
+import desertRules from './data/soundscapes/desert.json';
+import fieldRules from './data/soundscapes/field.json';
+import forestRules from './data/soundscapes/forest.json';
+import lakeRules from './data/soundscapes/lake.json';
+import oceanRules from './data/soundscapes/ocean.json';
+
+/**
+ * Variables available to roll and layer expressions.
+ *
+ * - isDay, isEvening, isNight: Time of day
+ * - rain, thunder, snowfall (0-1), snow, fog, hasPrecipitation, isDry: Weather
+ * - windSpeed (km/h), windVolume (0-1): Wind
+ * - humidity: Relative humidity percentage (0-100)
+ *
+ * Layer expressions can also use every roll name as a boolean.
+ */
+export const LAYER_VARIABLES = [
+  'isDay',
+  'isEvening',
+  'isNight',
+  'rain',
+  'thunder',
+  'snowfall',
+  'snow',
+  'fog',
+  'hasPrecipitation',
+  'isDry',
+  'windSpeed',
+  'windVolume',
+  'humidity',
+] as const;
+
+/**
+ * Variables available to accent expressions.
+ *
+ * Same time, weather and wind variables as layers, plus:
+ * - hasWindBearing: Whether the wind is strong enough to have a direction
+ * - windPan: Stereo position of the upwind side (-1 = left, 1 = right, 0 without a bearing)
+ */
+export const ACCENT_VARIABLES = [
+  'isDay',
+  'isEvening',
+  'isNight',
+  'rain',
+  'thunder',
+  'snowfall',
+  'snow',
+  'fog',
+  'hasPrecipitation',
+  'isDry',
+  'windSpeed',
+  'windVolume',
+  'hasWindBearing',
+  'windPan',
+] as const;
+
+/**
+ * Variable values for evaluating rules.
+ */
+export type RuleVariables = Record<string, RuleValue>;
+
+/**
+ * A validated layer rule.
+ */
+interface CompiledLayerRule {
+  soundId: SoundId;
+  category: SoundCategory;
+  volume: RuleExpression;
+  when: RuleExpression | null;
+  fadeInDuration?: number;
+  startDelay?: number;
+  pan?: number;
+}
+
+/**
+ * A validated accent rule.
+ */
+interface CompiledAccentRule {
+  soundId: SoundId;
+  category: SoundCategory;
+  ratePerMinute: RuleExpression;
+  when: RuleExpression | null;
+  minInterval?: number;
+  volume: [RuleExpression, RuleExpression];
+  pan?: [RuleExpression, RuleExpression];
+  duration?: number;
+  fadeDuration?: number;
+}
+
+/**
+ * A validated climate rule.
+ */
+export interface CompiledClimateRule {
+  /** Layers the rule applies to */
+  pattern: RegExp;
+
+  /** Drop the layer when colder than this (°C) */
+  minTemperatureC?: number;
+
+  /** Drop the layer when warmer than this (°C) */
+  maxTemperatureC?: number;
+}
+
+/**
+ * A validated biome rule file, ready to evaluate.
+ */
+export interface SoundscapeRules {
+  /** Optional layer rolls, as name → probability expression */
+  rolls: Array<{ name: string; probability: RuleExpression }>;
+
+  /** Looping layer rules */
+  layers: CompiledLayerRule[];
+
+  /** One-shot accent rules */
+  accents: CompiledAccentRule[];
+
+  /** Temperature limits */
+  climate: CompiledClimateRule[];
+
+  /** Dawn chorus layer, if the biome has one */
+  dawnChorus: { soundId: SoundId; volume: number } | null;
+}
+
+/**
+ * Fields of a schema type, not yet checked.
+ */
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+const RULE_FILES: Record<BiomeType, unknown> = {
+  beach: beachRules,
+  city: cityRules,
+  desert: desertRules,
+  field: fieldRules,
+  forest: forestRules,
+  lake: lakeRules,
+  ocean: oceanRules,
+};
+
+const compiledRules = new Map<BiomeType, SoundscapeRules>();
+
+/**
+ * Reads and checks the fields of one rule file.
+ * Every problem is reported with the file name and JSON path.
+ */
+class RuleFileReader {
+  constructor(private source: string) {}
+
+  fail(path: string, problem: string): never {
+    throw new Error(
+      `Invalid soundscape rules in ${this.source}: ${path} ${problem}`,
+    );
+  }
+
+  object<T = Record<string, unknown>>(value: unknown, path: string): Unchecked<T> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'must be an object');
+    }
+    return value as Unchecked<T>;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be an array');
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'must be a number');
+    }
+    return value;
+  }
+
+  optionalNumber(value: unknown, path: string): number | undefined {
+    return value === undefined ? undefined : this.number(value, path);
+  }
+
+  soundId(value: unknown, path: string): SoundId {
+    if (typeof value !== 'string' || !soundExists(value)) {
+      this.fail(path, `is not a known sound ID (${JSON.stringify(value)})`);
+    }
+    return value;
+  }
+
+  pattern(value: unknown, path: string): RegExp {
+    if (typeof value !== 'string') {
+      this.fail(path, 'must be a string');
+    }
+    try {
+      return new RegExp(value);
+    } catch {
+      this.fail(path, 'is not a valid regular expression');
+    }
+  }
+
+  category(value: unknown, path: string): SoundCategory {
+    if (!SOUND_CATEGORIES.includes(value as SoundCategory)) {
+      this.fail(path, `must be one of ${SOUND_CATEGORIES.join(', ')}`);
+    }
+    return value as SoundCategory;
+  }
+
+  expression(
+    value: unknown,
+    path: string,
+    variables: ReadonlySet<string>,
+  ): RuleExpression {
+    if (
+      typeof value !== 'string' &&
+      typeof value !== 'number' &&
+      typeof value !== 'boolean'
+    ) {
+      this.fail(path, 'must be a number, boolean or expression string');
+    }
+
+    let expression: RuleExpression;
+    try {
+      expression = compileRuleExpression(value);
+    } catch (error) {
+      this.fail(path, error instanceof Error ? error.message : String(error));
+    }
+
+    for (const name of expression.variables) {
+      if (!variables.has(name)) {
+        this.fail(path, `uses unknown variable "${name}"`);
+      }
+    }
+    return expression;
+  }
+
+  range(
+    value: unknown,
+    path: string,
+    variables: ReadonlySet<string>,
+  ): [RuleExpression, RuleExpression] {
+    const items = this.array(value, path);
+    if (items.length !== 2) {
+      this.fail(path, 'must be a [min, max] pair');
+    }
+    return [
+      this.expression(items[0], `${path}[0]`, variables),
+      this.expression(items[1], `${path}[1]`, variables),
+    ];
+  }
+}
+
+/**
+ * Validates a rule file and compiles its expressions.
+ *
+ * @param file - Parsed JSON rule file
+ * @param source - File name for error messages
+ * @returns Rules ready to evaluate
+ * @throws Error naming the file and field at fault
+ *
+ * @example
+ * compileSoundscapeRules(JSON.parse(text), 'forest.json')
+ */
+export function compileSoundscapeRules(
+  file: unknown,
+  source: string,
+): SoundscapeRules {
+  const reader = new RuleFileReader(source);
+  const root = reader.object<SoundscapeRuleFile>(file, '(root)');
+
+  const accentVariables = new Set<string>(ACCENT_VARIABLES);
+  const rollVariables = new Set<string>(LAYER_VARIABLES);
+  const layerVariables = new Set<string>(LAYER_VARIABLES);
+
+  const rolls = Object.entries(
+    root.rolls === undefined ? {} : reader.object(root.rolls, 'rolls'),
+  ).map(([name, probability]) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || rollVariables.has(name)) {
+      reader.fail(`rolls.${name}`, 'must be a new variable name');
+    }
+    layerVariables.add(name);
+    return {
+      name,
+      probability: reader.expression(probability, `rolls.${name}`, rollVariables),
+    };
+  });
+
+  const layers = reader.array(root.layers, 'layers').map((item, index) => {
+    const path = `layers[${index}]`;
+    const layer = reader.object<LayerRule>(item, path);
+
+    return {
+      soundId: reader.soundId(layer.soundId, `${path}.soundId`),
+      category: reader.category(layer.category, `${path}.category`),
+      volume: reader.expression(layer.volume, `${path}.volume`, layerVariables),
+      when:
+        layer.when === undefined
+          ? null
+          : reader.expression(layer.when, `${path}.when`, layerVariables),
+      fadeInDuration: reader.optionalNumber(
+        layer.fadeInDuration,
+        `${path}.fadeInDuration`,
+      ),
+      startDelay: reader.optionalNumber(layer.startDelay, `${path}.startDelay`),
+      pan: reader.optionalNumber(layer.pan, `${path}.pan`),
+    };
+  });
+
+  const accents = (
+    root.accents === undefined ? [] : reader.array(root.accents, 'accents')
+  ).map((item, index) => {
+    const path = `accents[${index}]`;
+    const accent = reader.object<AccentRule>(item, path);
+
+    return {
+      soundId: reader.soundId(accent.soundId, `${path}.soundId`),
+      category: reader.category(accent.category, `${path}.category`),
+      ratePerMinute: reader.expression(
+        accent.ratePerMinute,
+        `${path}.ratePerMinute`,
+        accentVariables,
+      ),
+      when:
+        accent.when === undefined
+          ? null
+          : reader.expression(accent.when, `${path}.when`, accentVariables),
+      minInterval: reader.optionalNumber(
+        accent.minInterval,
+        `${path}.minInterval`,
+      ),
+      volume: reader.range(accent.volume, `${path}.volume`, accentVariables),
+      pan:
+        accent.pan === undefined
+          ? undefined
+          : reader.range(accent.pan, `${path}.pan`, accentVariables),
+      duration: reader.optionalNumber(accent.duration, `${path}.duration`),
+      fadeDuration: reader.optionalNumber(
+        accent.fadeDuration,
+        `${path}.fadeDuration`,
+      ),
+    };
+  });
+
+  const climate = (
+    root.climate === undefined ? [] : reader.array(root.climate, 'climate')
+  ).map((item, index) => {
+    const path = `climate[${index}]`;
+    const rule = reader.object<ClimateRuleDefinition>(item, path);
+
+    return {
+      pattern: reader.pattern(rule.match, `${path}.match`),
+      minTemperatureC: reader.optionalNumber(
+        rule.minTemperatureC,
+        `${path}.minTemperatureC`,
+      ),
+      maxTemperatureC: reader.optionalNumber(
+        rule.maxTemperatureC,
+        `${path}.maxTemperatureC`,
+      ),
+    };
+  });
+
+  let dawnChorus: SoundscapeRules['dawnChorus'] = null;
+  if (root.dawnChorus !== undefined) {
+    const chorus = reader.object<DawnChorusRule>(root.dawnChorus, 'dawnChorus');
+    dawnChorus = {
+      soundId: reader.soundId(chorus.soundId, 'dawnChorus.soundId'),
+      volume: reader.number(chorus.volume, 'dawnChorus.volume'),
+    };
+  }
+
+  return { rolls, layers, accents, climate, dawnChorus };
+}
+
+/**
+ * Gets the validated rules for a biome (compiled once, then cached).
+ *
+ * @param biome - Biome type
+ * @returns Rules ready to evaluate
+ * @throws Error if the biome's rule file is invalid
+ */
+export function getSoundscapeRules(biome: BiomeType): SoundscapeRules {
+  let rules = compiledRules.get(biome);
+  if (!rules) {
+    rules = compileSoundscapeRules(RULE_FILES[biome], `${biome}.json`);
+    compiledRules.set(biome, rules);
+  }
+  return rules;
+}
+
+/**
+ * Validates every biome rule file.
+ *
+ * @returns Error messages (empty when every file is valid)
+ */
+export function validateSoundscapeRules(): string[] {
+  const errors: string[] = [];
+
+  for (const biome of Object.keys(RULE_FILES) as BiomeType[]) {
+    try {
+      getSoundscapeRules(biome);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluates layer rules into sound layers.
+ *
+ * @param rules - Biome rules
+ * @param variables - Layer variables, including roll results
+ * @returns Layers whose conditions hold, in rule file order
+ */
+export function evaluateLayerRules(
+  rules: SoundscapeRules,
+  variables: RuleVariables,
+): SoundLayer[] {
+  return rules.layers.flatMap((rule) => {
+    if (rule.when && !rule.when.evaluate(variables)) return [];
+
+    const layer: SoundLayer = {
+      soundId: rule.soundId,
+      volume: clampUnit(Number(rule.volume.evaluate(variables))),
+      loop: true,
+      category: rule.category,
+    };
+    if (rule.fadeInDuration !== undefined) {
+      layer.fadeInDuration = rule.fadeInDuration;
+    }
+    if (rule.startDelay !== undefined) layer.startDelay = rule.startDelay;
+    if (rule.pan !== undefined) layer.pan = rule.pan;
+
+    return [layer];
+  });
+}
+
+/**
+ * Evaluates accent rules into accent definitions.
+ *
+ * Accents with no shots per minute are left out.
+ *
+ * @param rules - Biome rules
+ * @param variables - Accent variables
+ * @returns Accents whose conditions hold, in rule file order
+ */
+export function evaluateAccentRules(
+  rules: SoundscapeRules,
+  variables: RuleVariables,
+): AccentSpec[] {
+  return rules.accents.flatMap((rule) => {
+    if (rule.when && !rule.when.evaluate(variables)) return [];
+
+    const ratePerMinute = Number(rule.ratePerMinute.evaluate(variables));
+    if (ratePerMinute <= 0) return [];
+
+    const accent: AccentSpec = {
+      soundId: rule.soundId,
+      category: rule.category,
+      ratePerMinute,
+      volume: [
+        clampUnit(Number(rule.volume[0].evaluate(variables))),
+        clampUnit(Number(rule.volume[1].evaluate(variables))),
+      ],
+    };
+    if (rule.minInterval !== undefined) accent.minInterval = rule.minInterval;
+    if (rule.pan) {
+      accent.pan = [
+        Number(rule.pan[0].evaluate(variables)),
+        Number(rule.pan[1].evaluate(variables)),
+      ];
+    }
+    if (rule.duration !== undefined) accent.duration = rule.duration;
+    if (rule.fadeDuration !== undefined) {
+      accent.fadeDuration = rule.fadeDuration;
+    }
+
+    return [accent];
+  });
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
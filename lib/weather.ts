@@ -1,4 +1,8 @@
-import type { WeatherData } from "@/types/weather";
+import type {
+  GeocodeResponse,
+  LocationCandidate,
+  WeatherData,
+} from "@/types/weather";
 
 async function requestWeather(params: URLSearchParams): Promise<WeatherData> {
   const queryString = params.toString();
@@ -9,7 +13,15 @@ async function requestWeather(params: URLSearchParams): Promise<WeatherData> {
     throw new Error(error.error || "Failed to fetch weather data");
   }
 
-  return response.json();
+  const data: WeatherData = await response.json();
+
+  // Set by the service worker when it answers from its offline cache
+  const cachedAt = response.headers.get("X-Hearaway-Cached-At");
+  if (cachedAt) {
+    data.cached_at = cachedAt;
+  }
+
+  return data;
 }
 
 export async function getWeatherByQuery(query: string): Promise<WeatherData> {
@@ -20,7 +32,7 @@ export async function getWeatherByQuery(query: string): Promise<WeatherData> {
   return requestWeather(params);
 }
 
-interface CoordinateRequest {
+export interface CoordinateRequest {
   lat: number;
   lon: number;
   name?: string;
@@ -50,3 +62,21 @@ export async function getWeatherByCoordinates({
 export async function getWeather(query: string): Promise<WeatherData> {
   return getWeatherByQuery(query);
 }
+
+export async function searchLocations(
+  query: string,
+  signal?: AbortSignal,
+): Promise<LocationCandidate[]> {
+  const params = new URLSearchParams({ q: query });
+  const response = await fetch(`/api/geocode?${params.toString()}`, {
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to search locations");
+  }
+
+  const data: GeocodeResponse = await response.json();
+  return data.results;
+}
@@ -0,0 +1,38 @@
+/**
+ * Weather providers behind /api/weather and /api/geocode.
+ *
+ * WEATHER_PROVIDER selects one (server-side):
+ * - "open-meteo" (default)
+ * - "met-norway": MET Norway forecasts, Open-Meteo place search
+ * - "mock": fixture places and conditions, for working offline
+ */
+
+import { metNorwayProvider } from "./metNorway";
+import { mockProvider } from "./mock";
+import { openMeteoProvider } from "./openMeteo";
+import logger from "../utils/logger";
+import type { WeatherProvider } from "@/types/weather";
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+  "open-meteo": openMeteoProvider,
+  "met-norway": metNorwayProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER = "open-meteo";
+
+/**
+ * Provider selected by WEATHER_PROVIDER (Open-Meteo when unset or unknown).
+ */
+export function getWeatherProvider(): WeatherProvider {
+  const key = process.env.WEATHER_PROVIDER?.trim().toLowerCase();
+  if (!key) return PROVIDERS[DEFAULT_PROVIDER];
+
+  const provider = PROVIDERS[key];
+  if (!provider) {
+    logger.warn(`Unknown WEATHER_PROVIDER "${key}", using ${DEFAULT_PROVIDER}`);
+    return PROVIDERS[DEFAULT_PROVIDER];
+  }
+
+  return provider;
+}
@@ -0,0 +1,119 @@
+/**
+ * MET Norway Locationforecast: forecasts from the Norwegian Meteorological
+ * Institute. It has no place search, so places come from Open-Meteo.
+ *
+ * Their terms ask for a User-Agent identifying the app; set
+ * MET_NORWAY_USER_AGENT to override the default.
+ */
+
+import { geocodeLocation } from "../geocoding";
+import {
+  estimateUtcOffset,
+  formatLocalTime,
+  getApparentTemperature,
+} from "./utils";
+import type {
+  MetNorwayForecast,
+  ProviderForecast,
+  WeatherProvider,
+} from "@/types/weather";
+
+const DEFAULT_USER_AGENT = "Hearaway/1.0 https://hearaway.app";
+
+/** Hours of forecast to return, like the Open-Meteo provider */
+const FORECAST_HOURS = 6;
+
+/** WMO codes of MET Norway symbols (without the _day/_night suffix) */
+const SYMBOL_WMO_CODES: Record<string, number> = {
+  clearsky: 0,
+  fair: 1,
+  partlycloudy: 2,
+  cloudy: 3,
+  fog: 45,
+  lightrain: 61,
+  rain: 63,
+  heavyrain: 65,
+  lightrainshowers: 80,
+  rainshowers: 81,
+  heavyrainshowers: 82,
+  lightsleet: 66,
+  sleet: 67,
+  heavysleet: 67,
+  lightsleetshowers: 66,
+  sleetshowers: 67,
+  heavysleetshowers: 67,
+  lightsnow: 71,
+  snow: 73,
+  heavysnow: 75,
+  lightsnowshowers: 85,
+  snowshowers: 85,
+  heavysnowshowers: 86,
+};
+
+/**
+ * WMO code of a MET Norway symbol (e.g., "lightrainshowers_day" → 80).
+ */
+function symbolToWmoCode(symbolCode: string): number {
+  const symbol = symbolCode.split("_")[0];
+  if (symbol.includes("thunder")) return 95;
+  return SYMBOL_WMO_CODES[symbol] ?? 3;
+}
+
+async function getForecast(
+  lat: number,
+  lon: number,
+): Promise<ProviderForecast> {
+  // MET Norway asks for at most four decimals
+  const url = `https://api.met.no/weatherapi/locationforecast/2.0/compact?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}`;
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": process.env.MET_NORWAY_USER_AGENT || DEFAULT_USER_AGENT,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`MET Norway forecast failed with status ${response.status}`);
+  }
+
+  const data: MetNorwayForecast = await response.json();
+  const [current, ...upcoming] = data.properties.timeseries;
+  if (!current) {
+    throw new Error("MET Norway forecast has no timeseries");
+  }
+
+  const { air_temperature, relative_humidity, wind_speed, wind_from_direction } =
+    current.data.instant.details;
+  const summary =
+    current.data.next_1_hours?.summary ?? current.data.next_6_hours?.summary;
+  const utcOffset = estimateUtcOffset(lon);
+
+  return {
+    localtime: formatLocalTime(new Date(), utcOffset),
+    utc_offset_seconds: utcOffset,
+    temp_c: air_temperature,
+    feelslike_c: getApparentTemperature(
+      air_temperature,
+      relative_humidity,
+      wind_speed,
+    ),
+    humidity: Math.round(relative_humidity),
+    wind_kph: wind_speed * 3.6,
+    wind_dir: wind_from_direction,
+    weather_code: summary ? symbolToWmoCode(summary.symbol_code) : 3,
+    hourly: upcoming
+      .filter((entry) => entry.data.next_1_hours)
+      .slice(0, FORECAST_HOURS)
+      .map((entry) => ({
+        time: formatLocalTime(new Date(entry.time), utcOffset),
+        weather_code: symbolToWmoCode(
+          entry.data.next_1_hours!.summary.symbol_code,
+        ),
+      })),
+  };
+}
+
+export const metNorwayProvider: WeatherProvider = {
+  name: "MET Norway",
+  getForecast,
+  searchPlaces: geocodeLocation,
+};
@@ -0,0 +1,110 @@
+/**
+ * Mock provider for working offline: a fixed set of places and conditions,
+ * no network.
+ *
+ * Every place gets the same conditions each time (fixture places their own,
+ * other coordinates one picked from the coordinates). The clock is real,
+ * unless MOCK_WEATHER_TIME pins it (UTC, e.g. "2025-06-21T03:00:00Z") to
+ * hear a given time of day.
+ */
+
+import { estimateUtcOffset, formatLocalTime } from "./utils";
+import { searchPlaceList } from "../geocoding";
+import type {
+  GeocodingResult,
+  LocationCandidate,
+  ProviderForecast,
+  WeatherProvider,
+} from "@/types/weather";
+
+type MockConditions = Omit<
+  ProviderForecast,
+  "localtime" | "utc_offset_seconds" | "hourly"
+>;
+
+const CONDITIONS: Record<string, MockConditions> = {
+  clear: { temp_c: 24, feelslike_c: 25, humidity: 40, wind_kph: 8, wind_dir: 200, weather_code: 0 },
+  cloudy: { temp_c: 14, feelslike_c: 12, humidity: 70, wind_kph: 15, wind_dir: 250, weather_code: 3 },
+  rain: { temp_c: 11, feelslike_c: 8, humidity: 92, wind_kph: 22, wind_dir: 230, weather_code: 63 },
+  storm: { temp_c: 27, feelslike_c: 31, humidity: 85, wind_kph: 35, wind_dir: 120, weather_code: 95 },
+  snow: { temp_c: -4, feelslike_c: -10, humidity: 88, wind_kph: 18, wind_dir: 10, weather_code: 73 },
+  fog: { temp_c: 7, feelslike_c: 6, humidity: 99, wind_kph: 3, wind_dir: 90, weather_code: 45 },
+};
+
+const CONDITION_KEYS = Object.keys(CONDITIONS);
+
+interface MockPlace extends GeocodingResult {
+  conditions: keyof typeof CONDITIONS;
+}
+
+// Shaped like Open-Meteo geocoding results so searches rank the same way
+const PLACES: MockPlace[] = [
+  { id: 1, name: "London", admin1: "England", country: "United Kingdom", country_code: "GB", feature_code: "PPLC", population: 8961989, latitude: 51.5085, longitude: -0.1257, timezone: "Europe/London", conditions: "rain" },
+  { id: 2, name: "Reykjavik", admin1: "Capital Region", country: "Iceland", country_code: "IS", feature_code: "PPLC", population: 118918, latitude: 64.1355, longitude: -21.8954, timezone: "Atlantic/Reykjavik", conditions: "snow" },
+  { id: 3, name: "Portland", admin1: "Maine", country: "United States", country_code: "US", feature_code: "PPLA2", population: 66881, latitude: 43.6615, longitude: -70.2553, timezone: "America/New_York", conditions: "fog" },
+  { id: 4, name: "Portland", admin1: "Oregon", country: "United States", country_code: "US", feature_code: "PPLA2", population: 652503, latitude: 45.5234, longitude: -122.6762, timezone: "America/Los_Angeles", conditions: "cloudy" },
+  { id: 5, name: "Phoenix", admin1: "Arizona", country: "United States", country_code: "US", feature_code: "PPLA", population: 1680992, latitude: 33.4484, longitude: -112.074, timezone: "America/Phoenix", conditions: "clear" },
+  { id: 6, name: "Manaus", admin1: "Amazonas", country: "Brazil", country_code: "BR", feature_code: "PPLA", population: 1598210, latitude: -3.1019, longitude: -60.025, timezone: "America/Manaus", conditions: "storm" },
+  { id: 7, name: "Tokyo", admin1: "Tokyo", country: "Japan", country_code: "JP", feature_code: "PPLC", population: 8336599, latitude: 35.6895, longitude: 139.6917, timezone: "Asia/Tokyo", conditions: "cloudy" },
+  { id: 8, name: "Cape Town", admin1: "Western Cape", country: "South Africa", country_code: "ZA", feature_code: "PPLA", population: 3433441, latitude: -33.9258, longitude: 18.4232, timezone: "Africa/Johannesburg", conditions: "clear" },
+];
+
+/** Forecast hours, like the Open-Meteo provider */
+const FORECAST_HOURS = 6;
+
+/**
+ * Conditions of a fixture place, or ones picked from the coordinates.
+ */
+function getConditions(lat: number, lon: number): MockConditions {
+  const place = PLACES.find(
+    (candidate) =>
+      Math.abs(candidate.latitude - lat) < 0.01 &&
+      Math.abs(candidate.longitude - lon) < 0.01,
+  );
+  if (place) return CONDITIONS[place.conditions];
+
+  const hash = Math.abs(Math.round(lat * 100) * 31 + Math.round(lon * 100));
+  return CONDITIONS[CONDITION_KEYS[hash % CONDITION_KEYS.length]];
+}
+
+async function getForecast(
+  lat: number,
+  lon: number,
+): Promise<ProviderForecast> {
+  const pinned = process.env.MOCK_WEATHER_TIME
+    ? new Date(process.env.MOCK_WEATHER_TIME)
+    : null;
+  const now = pinned && !Number.isNaN(pinned.getTime()) ? pinned : new Date();
+  const utcOffset = estimateUtcOffset(lon);
+  const conditions = getConditions(lat, lon);
+
+  // Hourly slots from the current hour, all with the same conditions
+  const hour = new Date(now);
+  hour.setUTCMinutes(0, 0, 0);
+
+  return {
+    ...conditions,
+    localtime: formatLocalTime(now, utcOffset),
+    utc_offset_seconds: utcOffset,
+    hourly: Array.from({ length: FORECAST_HOURS }, (_, index) => ({
+      time: formatLocalTime(
+        new Date(hour.getTime() + index * 3600 * 1000),
+        utcOffset,
+      ),
+      weather_code: conditions.weather_code,
+    })),
+  };
+}
+
+async function searchPlaces(
+  query: string,
+  count: number,
+): Promise<LocationCandidate[]> {
+  return searchPlaceList(PLACES, query, count);
+}
+
+export const mockProvider: WeatherProvider = {
+  name: "Mock",
+  getForecast,
+  searchPlaces,
+};
@@ -0,0 +1,45 @@
+/**
+ * Open-Meteo: forecasts and place search (the default provider).
+ */
+
+import { geocodeLocation } from "../geocoding";
+import type {
+  OpenMeteoForecast,
+  ProviderForecast,
+  WeatherProvider,
+} from "@/types/weather";
+
+async function getForecast(
+  lat: number,
+  lon: number,
+): Promise<ProviderForecast> {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m&hourly=weather_code&forecast_hours=6&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Open-Meteo forecast failed with status ${response.status}`);
+  }
+
+  const data: OpenMeteoForecast = await response.json();
+
+  return {
+    localtime: data.current.time,
+    utc_offset_seconds: data.utc_offset_seconds,
+    temp_c: data.current.temperature_2m,
+    feelslike_c: data.current.apparent_temperature,
+    humidity: data.current.relative_humidity_2m,
+    wind_kph: data.current.wind_speed_10m,
+    wind_dir: data.current.wind_direction_10m,
+    weather_code: data.current.weather_code,
+    hourly: data.hourly?.time.map((time, index) => ({
+      time,
+      weather_code: data.hourly!.weather_code[index],
+    })),
+  };
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: "Open-Meteo",
+  getForecast,
+  searchPlaces: geocodeLocation,
+};
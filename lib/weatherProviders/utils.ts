@@ -0,0 +1,46 @@
+/**
+ * Helpers shared by providers whose forecasts come without local time.
+ */
+
+/**
+ * Approximate UTC offset from the longitude (solar time, 15° per hour).
+ * Off by up to an hour or two near time zone borders, which is close enough
+ * for day phases.
+ *
+ * @param lon - Longitude
+ * @returns Offset in seconds
+ */
+export function estimateUtcOffset(lon: number): number {
+  return Math.round(lon / 15) * 3600;
+}
+
+/**
+ * Format a moment as local time, like Open-Meteo does ("2025-10-31T14:30").
+ *
+ * @param date - Moment to format
+ * @param utcOffsetSeconds - Offset of the place from UTC
+ * @returns Local ISO 8601 timestamp without seconds or zone
+ */
+export function formatLocalTime(date: Date, utcOffsetSeconds: number): string {
+  return new Date(date.getTime() + utcOffsetSeconds * 1000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+/**
+ * Feels-like temperature (Steadman's apparent temperature, no sun).
+ *
+ * @param tempC - Air temperature (°C)
+ * @param humidity - Relative humidity (%)
+ * @param windMs - Wind speed (m/s)
+ * @returns Apparent temperature (°C)
+ */
+export function getApparentTemperature(
+  tempC: number,
+  humidity: number,
+  windMs: number,
+): number {
+  const vapourPressure =
+    (humidity / 100) * 6.105 * Math.exp((17.27 * tempC) / (237.7 + tempC));
+  return tempC + 0.33 * vapourPressure - 0.7 * windMs - 4;
+}
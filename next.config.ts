@@ -3,9 +3,13 @@ import type { NextConfig } from "next";
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const { version } = require("./package.json");
 
+// Names the service worker's app shell caches (see public/sw.js)
+const buildId = process.env.BUILD_ID ?? `${version}-${Date.now().toString(36)}`;
+
 const nextConfig: NextConfig = {
   env: {
     NEXT_PUBLIC_APP_VERSION: version,
+    NEXT_PUBLIC_BUILD_ID: buildId,
   },
   /* config options here */
 };
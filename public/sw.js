@@ -0,0 +1,258 @@
+/**
+ * Hearaway service worker.
+ *
+ * Keeps the app usable offline:
+ * - App shell (pages and /_next/static) so the app can start without a network.
+ *   These caches are named after the build (sw.js?build=...), so a deploy
+ *   drops the previous build's pages and chunks on activation.
+ * - /audio/** and /assets/backgrounds/**, cache-first within a size budget
+ * - The last /api/weather response per location, used when the network fails.
+ *   Cached replies carry an X-Hearaway-Cached-At header with the time the
+ *   conditions were fetched.
+ */
+
+/** Version of the audio, background and weather caches (kept across deploys) */
+const CACHE_VERSION = "v1";
+
+/** Build the app shell belongs to, from the registration URL */
+const BUILD_ID = new URL(self.location.href).searchParams.get("build") || "dev";
+
+const SHELL_CACHE = `hearaway-shell-${BUILD_ID}`;
+const STATIC_CACHE = `hearaway-static-${BUILD_ID}`;
+const AUDIO_CACHE = `hearaway-audio-${CACHE_VERSION}`;
+const BACKGROUND_CACHE = `hearaway-backgrounds-${CACHE_VERSION}`;
+const WEATHER_CACHE = `hearaway-weather-${CACHE_VERSION}`;
+
+/** Size budgets in bytes; the oldest entries are evicted beyond them */
+const STATIC_CACHE_BUDGET = 20 * 1024 * 1024;
+const AUDIO_CACHE_BUDGET = 150 * 1024 * 1024;
+const BACKGROUND_CACHE_BUDGET = 40 * 1024 * 1024;
+
+/** Number of locations whose last weather is kept */
+const WEATHER_CACHE_LOCATIONS = 20;
+
+const CACHED_AT_HEADER = "X-Hearaway-Cached-At";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(["/", "/manifest.json"]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, STATIC_CACHE, AUDIO_CACHE, BACKGROUND_CACHE, WEATHER_CACHE];
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith("hearaway-") && !current.includes(name))
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/audio/")) {
+    event.respondWith(handleAudio(event));
+  } else if (url.pathname.startsWith("/assets/backgrounds/")) {
+    event.respondWith(cacheFirst(request, BACKGROUND_CACHE, BACKGROUND_CACHE_BUDGET));
+  } else if (url.pathname === "/api/weather") {
+    event.respondWith(handleWeather(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE, STATIC_CACHE_BUDGET));
+  } else if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  }
+});
+
+/**
+ * Serves from the cache, or fetches and stores the response.
+ */
+async function cacheFirst(request, cacheName, budget) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    if (budget) await trimCache(cache, budget);
+  }
+  return response;
+}
+
+/**
+ * Audio files, including range requests from streamed beds.
+ *
+ * Partial responses can't be cached, so a range request that misses the
+ * cache goes to the network while the whole file is cached alongside it.
+ */
+async function handleAudio(event) {
+  const { request } = event;
+  const range = request.headers.get("Range");
+  if (!range) {
+    return cacheFirst(request, AUDIO_CACHE, AUDIO_CACHE_BUDGET);
+  }
+
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return rangeResponse(cached, range);
+
+  event.waitUntil(
+    cacheFirst(new Request(request.url), AUDIO_CACHE, AUDIO_CACHE_BUDGET).catch(
+      () => undefined,
+    ),
+  );
+  return fetch(request);
+}
+
+/**
+ * Builds a 206 response for a "bytes=start-end" range of a cached file.
+ */
+async function rangeResponse(response, range) {
+  const blob = await response.blob();
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range);
+  if (!match) return new Response(blob, { headers: response.headers });
+
+  let start;
+  let end;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    start = Math.max(0, blob.size - Number(match[2]));
+    end = blob.size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? blob.size - 1 : Math.min(Number(match[2]), blob.size - 1);
+  }
+
+  if (start >= blob.size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { "Content-Range": `bytes */${blob.size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": response.headers.get("Content-Type") || "audio/ogg",
+      "Content-Range": `bytes ${start}-${end}/${blob.size}`,
+      "Content-Length": String(end - start + 1),
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
+
+/**
+ * Evicts the oldest entries until the cache fits its budget.
+ */
+async function trimCache(cache, budget) {
+  const requests = await cache.keys();
+  const sizes = await Promise.all(
+    requests.map(async (request) => {
+      const response = await cache.match(request);
+      if (!response) return 0;
+      const length = Number(response.headers.get("Content-Length"));
+      return length > 0 ? length : (await response.blob()).size;
+    }),
+  );
+
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  for (let i = 0; i < requests.length - 1 && total > budget; i++) {
+    await cache.delete(requests[i]);
+    total -= sizes[i];
+  }
+}
+
+/**
+ * Cache key for a weather request: coordinates identify a location
+ * regardless of the display name sent along, searches by their query.
+ */
+function weatherCacheKey(url) {
+  const lat = url.searchParams.get("lat");
+  const lon = url.searchParams.get("lon");
+  if (lat !== null && lon !== null) {
+    return `/api/weather?lat=${Number(lat).toFixed(2)}&lon=${Number(lon).toFixed(2)}`;
+  }
+  return `/api/weather?q=${encodeURIComponent((url.searchParams.get("q") || "").toLowerCase())}`;
+}
+
+/**
+ * Network first; on failure, the last weather for the same location.
+ */
+async function handleWeather(request) {
+  const cache = await caches.open(WEATHER_CACHE);
+  const url = new URL(request.url);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const data = await response.clone().json();
+      const stored = new Response(JSON.stringify(data), {
+        headers: {
+          "Content-Type": "application/json",
+          [CACHED_AT_HEADER]: new Date().toISOString(),
+        },
+      });
+
+      // Store under the query and the resolved coordinates, so a search can
+      // be restored later from the coordinates it resolved to
+      const coordinates = new URL("/api/weather", url);
+      coordinates.searchParams.set("lat", data.biome.coordinates.lat);
+      coordinates.searchParams.set("lon", data.biome.coordinates.lon);
+
+      await cache.put(weatherCacheKey(url), stored.clone());
+      await cache.put(weatherCacheKey(coordinates), stored);
+      await trimWeatherCache(cache);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(weatherCacheKey(url));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function trimWeatherCache(cache) {
+  const requests = await cache.keys();
+  // Two entries per location (query and coordinates)
+  const excess = requests.length - WEATHER_CACHE_LOCATIONS * 2;
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(requests[i]);
+  }
+}
+
+/**
+ * Pages: network first, falling back to the cached app shell.
+ *
+ * Pages are stored by path only: the location in the query string
+ * (/?lat=...&lon=...) is read by the page itself, so every place shares
+ * one entry.
+ */
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const key = new URL(request.url).pathname;
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(key, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(key)) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
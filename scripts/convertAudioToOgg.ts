@@ -13,12 +13,15 @@
  *   - Pass --overwrite to regenerate existing .ogg files.
  *   - Pass --delete-original to remove the source file after a successful conversion.
  *   - Pass --move-original to archive the source file under public/audio/.originals/.
+ *   - After converting, the sound manifest is regenerated: new and changed files
+ *     get their integrated loudness (EBU R128) measured and a normalization gain.
  */
 
 import { promises as fs } from "node:fs";
 import { join, relative, parse } from "node:path";
 import { spawn } from "node:child_process";
 import process from "node:process";
+import { generateSoundManifest } from "./generateSoundManifest";
 
 type CliFlags = {
   dryRun: boolean;
@@ -201,6 +204,9 @@ async function main() {
 
   if (conversions.length === 0) {
     console.log("No convertible audio files found.");
+    if (!flags.dryRun) {
+      await generateSoundManifest();
+    }
     return;
   }
 
@@ -248,6 +254,10 @@ async function main() {
   }
 
   console.log("Conversion complete.");
+
+  if (!flags.dryRun) {
+    await generateSoundManifest();
+  }
 }
 
 main().catch((error) => {
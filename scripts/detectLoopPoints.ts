@@ -0,0 +1,276 @@
+#!/usr/bin/env tsx
+/**
+ * Detects seamless loop points and records them in the sound manifest.
+ *
+ * Usage:
+ *   npx tsx scripts/detectLoopPoints.ts [soundId ...]
+ *
+ * Requirements:
+ *   - ffmpeg must be available on the system PATH (used to decode audio).
+ *
+ * Notes:
+ *   - Without arguments every sound in the manifest is analysed.
+ *   - Files already cut to loop cleanly (no click or level jump where the end
+ *     meets the start) loop over the whole file.
+ *   - Otherwise the script searches the head and tail of the file for the
+ *     pair of points whose surroundings correlate best, aligned to an upward
+ *     zero crossing. Matches below MIN_CORRELATION, in the coarse search or
+ *     at full resolution, are rejected.
+ *   - Sounds with loop points use native gapless looping in the AudioManager;
+ *     the rest keep crossfade looping.
+ */
+
+import { promises as fs } from "node:fs";
+import { spawn } from "node:child_process";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+type ManifestEntry = {
+  path: string;
+  sampleRate: number | null;
+  loopStart?: number;
+  loopEnd?: number;
+  [key: string]: unknown;
+};
+
+type LoopPoints = { loopStart: number; loopEnd: number; correlation: number };
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const projectRoot = join(__dirname, "..");
+const audioRoot = join(projectRoot, "public", "audio");
+const manifestPath = join(projectRoot, "lib", "data", "soundManifest.json");
+
+/** How far into the head and tail to search for loop points (seconds) */
+const SEARCH_SECONDS = 8;
+
+/** Sample rate of the coarse correlation search */
+const ANALYSIS_RATE = 4000;
+
+/** Length of audio compared on either side of the seam (seconds) */
+const MATCH_SECONDS = 0.5;
+
+/** Number of loop end candidates tried across the tail */
+const END_CANDIDATES = 12;
+
+/** Lowest normalized correlation accepted as seamless */
+const MIN_CORRELATION = 0.9;
+
+/** Largest sample jump at a clean whole-file seam */
+const MAX_SEAM_STEP = 0.02;
+
+/** Largest level difference between the end and start of a clean whole-file seam (dB) */
+const MAX_SEAM_LEVEL_DB = 1.5;
+
+/**
+ * Decodes a file to mono 32-bit float samples at the given rate.
+ */
+async function decodeMono(filePath: string, sampleRate: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(
+      "ffmpeg",
+      ["-v", "error", "-i", filePath, "-ac", "1", "-ar", String(sampleRate), "-f", "f32le", "-"],
+      { stdio: ["ignore", "pipe", "inherit"] }
+    );
+
+    const chunks: Buffer[] = [];
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.once("error", (err) => reject(err));
+    ffmpeg.once("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}`));
+        return;
+      }
+      // Copy into a fresh, aligned buffer
+      const bytes = Uint8Array.from(Buffer.concat(chunks));
+      resolve(new Float32Array(bytes.buffer, 0, Math.floor(bytes.length / 4)));
+    });
+  });
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / Math.max(1, samples.length));
+}
+
+/**
+ * Box-filters and decimates samples by an integer factor.
+ */
+function decimate(samples: Float32Array, factor: number): Float32Array {
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    output[i] = sum / factor;
+  }
+  return output;
+}
+
+/**
+ * Normalized correlation of two equally long windows.
+ */
+function correlate(
+  samples: Float32Array,
+  a: number,
+  b: number,
+  length: number
+): number {
+  let dot = 0;
+  let energyA = 0;
+  let energyB = 0;
+  for (let i = 0; i < length; i++) {
+    const x = samples[a + i];
+    const y = samples[b + i];
+    dot += x * y;
+    energyA += x * x;
+    energyB += y * y;
+  }
+  return energyA > 0 && energyB > 0 ? dot / Math.sqrt(energyA * energyB) : 0;
+}
+
+/**
+ * Checks whether the file already loops cleanly end-to-start.
+ */
+function hasCleanSeam(samples: Float32Array, sampleRate: number): boolean {
+  const n = samples.length;
+  if (n < 3) return false;
+
+  // The first sample should continue the slope of the last two
+  const predicted = 2 * samples[n - 1] - samples[n - 2];
+  if (Math.abs(samples[0] - predicted) > MAX_SEAM_STEP) return false;
+
+  const window = Math.round(MATCH_SECONDS * sampleRate);
+  const headLevel = rms(samples.subarray(0, window));
+  const tailLevel = rms(samples.subarray(n - window));
+  if (headLevel === 0 || tailLevel === 0) return headLevel === tailLevel;
+
+  return Math.abs(20 * Math.log10(headLevel / tailLevel)) <= MAX_SEAM_LEVEL_DB;
+}
+
+/**
+ * Finds the nearest upward zero crossing to a sample index.
+ */
+function nearestZeroCrossing(samples: Float32Array, index: number, radius: number): number {
+  for (let offset = 0; offset <= radius; offset++) {
+    for (const candidate of [index + offset, index - offset]) {
+      if (candidate > 0 && candidate < samples.length && samples[candidate - 1] < 0 && samples[candidate] >= 0) {
+        return candidate;
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Searches the head and tail for the best-matching loop points.
+ */
+function findLoopPoints(samples: Float32Array, sampleRate: number): LoopPoints | null {
+  const duration = samples.length / sampleRate;
+
+  if (hasCleanSeam(samples, sampleRate)) {
+    return { loopStart: 0, loopEnd: duration, correlation: 1 };
+  }
+
+  const searchSamples = Math.round(SEARCH_SECONDS * sampleRate);
+  if (samples.length < searchSamples * 3) return null; // Too short to trim
+
+  // Coarse search on a decimated copy
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE));
+  const coarse = decimate(samples, factor);
+  const window = Math.round((MATCH_SECONDS * sampleRate) / factor);
+  const headEnd = Math.round(searchSamples / factor) - window;
+  const tailStart = coarse.length - Math.round(searchSamples / factor);
+  const tailEnd = coarse.length - window;
+
+  let best = { a: 0, b: 0, correlation: -1 };
+  for (let candidate = 0; candidate < END_CANDIDATES; candidate++) {
+    const b = Math.round(tailStart + ((tailEnd - tailStart) * candidate) / END_CANDIDATES);
+    for (let a = 0; a < headEnd; a++) {
+      const correlation = correlate(coarse, a, b, window);
+      if (correlation > best.correlation) {
+        best = { a, b, correlation };
+      }
+    }
+  }
+
+  if (best.correlation < MIN_CORRELATION) return null;
+
+  // Refine the alignment at full resolution
+  const fullWindow = Math.round(MATCH_SECONDS * sampleRate);
+  const loopEndIndex = best.b * factor;
+  let loopStartIndex = best.a * factor;
+  let refined = -1;
+  for (let a = Math.max(0, loopStartIndex - factor); a <= loopStartIndex + factor; a++) {
+    const correlation = correlate(samples, a, loopEndIndex, fullWindow);
+    if (correlation > refined) {
+      refined = correlation;
+      loopStartIndex = a;
+    }
+  }
+
+  // Decimation can flatter a match; the full-resolution one must hold too
+  if (refined < MIN_CORRELATION) return null;
+
+  // Move both points together onto an upward zero crossing of the loop end
+  const radius = Math.round(sampleRate * 0.005);
+  const shift = nearestZeroCrossing(samples, loopEndIndex, radius) - loopEndIndex;
+
+  return {
+    loopStart: (loopStartIndex + shift) / sampleRate,
+    loopEnd: (loopEndIndex + shift) / sampleRate,
+    correlation: refined,
+  };
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1e6) / 1e6;
+
+async function main() {
+  const manifest: Record<string, ManifestEntry> = JSON.parse(
+    await fs.readFile(manifestPath, "utf8")
+  );
+  const requested = process.argv.slice(2);
+  const soundIds = requested.length > 0 ? requested : Object.keys(manifest);
+
+  for (const soundId of soundIds) {
+    const entry = manifest[soundId];
+    if (!entry) {
+      throw new Error(`Unknown sound ID: ${soundId}`);
+    }
+    if (!entry.sampleRate) {
+      console.warn(`${soundId}: skipped (no audio metadata)`);
+      continue;
+    }
+
+    const samples = await decodeMono(join(audioRoot, entry.path), entry.sampleRate);
+    const points = findLoopPoints(samples, entry.sampleRate);
+
+    delete entry.loopStart;
+    delete entry.loopEnd;
+
+    if (!points) {
+      console.log(`${soundId}: no seamless loop found, keeping crossfade`);
+      continue;
+    }
+
+    // Keep the key order of generateSoundManifest.ts (loop points before bytes)
+    const { bytes, tags, variants, ...rest } = entry;
+    manifest[soundId] = {
+      ...rest,
+      loopStart: roundTime(points.loopStart),
+      loopEnd: roundTime(points.loopEnd),
+      bytes,
+      tags,
+      ...(variants ? { variants } : {}),
+    };
+    console.log(
+      `${soundId}: ${points.loopStart.toFixed(3)}s → ${points.loopEnd.toFixed(3)}s (correlation ${points.correlation.toFixed(3)})`
+    );
+  }
+
+  await fs.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,418 @@
+#!/usr/bin/env tsx
+/**
+ * Generates the sound asset manifest from public/audio.
+ *
+ * Usage:
+ *   npx tsx scripts/generateSoundManifest.ts [--remeasure] [--skip-loudness]
+ *
+ * Notes:
+ *   - Reads duration, channels and sample rate from the Ogg (Vorbis/Opus) or WAV headers.
+ *   - Measures integrated loudness (EBU R128) of new and changed files with
+ *     ffmpeg, which must be on the PATH; pass --remeasure to measure every
+ *     file again. Unchanged files keep their previous measurement.
+ *   - Fails when a file can't be measured. --skip-loudness writes the
+ *     manifest anyway, without a measurement (and gain) for those files.
+ *   - Records a normalization gain bringing each file to TARGET_LOUDNESS_LUFS,
+ *     which the AudioManager applies on playback.
+ *   - Loop points (see detectLoopPoints.ts) are kept for unchanged files.
+ *   - Numbered takes of a recording form a variant group, listed on the
+ *     first take; the AudioManager rotates through them while looping.
+ *   - Sound IDs are stable: a file keeps the ID it already has in the
+ *     manifest. New files get an ID derived from their name
+ *     (water/water-waves-light-close-02.ogg -> waves-light-close-2).
+ *   - Fails without writing when a file is gone whose ID the code or the
+ *     soundscape rule files still use.
+ */
+
+import { promises as fs } from "node:fs";
+import { spawn } from "node:child_process";
+import { join, parse, relative, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+type SoundAssetEntry = {
+  path: string;
+  duration: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+  loudness: number | null;
+  gainDb: number;
+  loopStart?: number;
+  loopEnd?: number;
+  bytes: number;
+  tags: string[];
+  variants?: string[];
+};
+
+type AudioHeader = Pick<SoundAssetEntry, "duration" | "channels" | "sampleRate">;
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const projectRoot = join(__dirname, "..");
+const audioRoot = join(projectRoot, "public", "audio");
+const outputPath = join(projectRoot, "lib", "data", "soundManifest.json");
+const SUPPORTED_EXTENSIONS = new Set([".ogg", ".wav", ".mp3"]);
+
+/** Folders searched for sound IDs in use (code and soundscape rule files) */
+const SOURCE_FOLDERS = ["app", "components", "hooks", "lib", "types"];
+const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".json"]);
+
+/** Loudness every file is normalized to (EBU R128 programme level) */
+const TARGET_LOUDNESS_LUFS = -23;
+
+/** Normalization limits, so near-silent or clipped files aren't pushed to extremes */
+const MAX_BOOST_DB = 12;
+const MAX_CUT_DB = -24;
+
+const EMPTY_HEADER: AudioHeader = {
+  duration: null,
+  channels: null,
+  sampleRate: null,
+};
+
+async function* walk(folder: string): AsyncGenerator<string> {
+  const items = await fs.readdir(folder, { withFileTypes: true });
+  for (const item of items) {
+    if (item.name.startsWith(".")) continue; // .originals archive, etc.
+
+    const itemPath = join(folder, item.name);
+    if (item.isDirectory()) {
+      yield* walk(itemPath);
+    } else if (item.isFile()) {
+      yield itemPath;
+    }
+  }
+}
+
+async function readPreviousManifest(): Promise<Record<string, SoundAssetEntry>> {
+  try {
+    return JSON.parse(await fs.readFile(outputPath, "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads an Ogg identification header (Vorbis or Opus) and the final
+ * granule position, which counts the samples in the stream.
+ */
+function readOggHeader(data: Buffer): AudioHeader | null {
+  if (data.toString("ascii", 0, 4) !== "OggS") return null;
+
+  // First page: 27-byte header, segment table, then the identification packet
+  const packet = 27 + data[26];
+  const lastPage = data.lastIndexOf("OggS");
+  const granule = Number(data.readBigUInt64LE(lastPage + 6));
+
+  if (data[packet] === 0x01 && data.toString("ascii", packet + 1, packet + 7) === "vorbis") {
+    const channels = data[packet + 11];
+    const sampleRate = data.readUInt32LE(packet + 12);
+    return {
+      duration: sampleRate > 0 ? roundSeconds(granule / sampleRate) : null,
+      channels,
+      sampleRate,
+    };
+  }
+
+  if (data.toString("ascii", packet, packet + 8) === "OpusHead") {
+    // Opus always decodes at 48 kHz; the first samples are encoder pre-skip
+    const preSkip = data.readUInt16LE(packet + 10);
+    return {
+      duration: roundSeconds((granule - preSkip) / 48000),
+      channels: data[packet + 9],
+      sampleRate: 48000,
+    };
+  }
+
+  return null;
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Reads the fmt and data chunks of a RIFF/WAVE file.
+ */
+function readWavHeader(data: Buffer): AudioHeader | null {
+  if (data.toString("ascii", 0, 4) !== "RIFF" || data.toString("ascii", 8, 12) !== "WAVE") {
+    return null;
+  }
+
+  let channels: number | null = null;
+  let sampleRate: number | null = null;
+  let byteRate: number | null = null;
+  let dataBytes: number | null = null;
+
+  for (let offset = 12; offset + 8 <= data.length; ) {
+    const chunkId = data.toString("ascii", offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+
+    if (chunkId === "fmt ") {
+      channels = data.readUInt16LE(offset + 10);
+      sampleRate = data.readUInt32LE(offset + 12);
+      byteRate = data.readUInt32LE(offset + 16);
+    } else if (chunkId === "data") {
+      dataBytes = chunkSize;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return {
+    duration: byteRate && dataBytes !== null ? roundSeconds(dataBytes / byteRate) : null,
+    channels,
+    sampleRate,
+  };
+}
+
+function readAudioHeader(data: Buffer, extension: string): AudioHeader | null {
+  if (extension === ".ogg") return readOggHeader(data);
+  if (extension === ".wav") return readWavHeader(data);
+  return null;
+}
+
+async function ffmpegExists(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = spawn("ffmpeg", ["-version"], { stdio: "ignore" });
+    probe.once("error", () => resolve(false));
+    probe.once("close", (code) => resolve(code === 0));
+  });
+}
+
+/**
+ * Measures integrated loudness (LUFS) with ffmpeg's ebur128 filter.
+ */
+async function measureLoudness(filePath: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(
+      "ffmpeg",
+      ["-nostats", "-i", filePath, "-filter_complex", "ebur128", "-f", "null", "-"],
+      { stdio: ["ignore", "ignore", "pipe"] }
+    );
+
+    let output = "";
+    ffmpeg.stderr.on("data", (chunk) => {
+      output += chunk;
+    });
+    ffmpeg.once("error", () => resolve(null));
+    ffmpeg.once("close", () => {
+      // The summary at the end reports "I: -23.4 LUFS"
+      const matches = [...output.matchAll(/I:\s+(-?[\d.]+) LUFS/g)];
+      const last = matches.at(-1);
+      resolve(last ? Number(last[1]) : null);
+    });
+  });
+}
+
+/**
+ * Gain (dB) bringing a file's integrated loudness to the target level.
+ * Unmeasured files are left as they are.
+ */
+function getNormalizationGainDb(loudness: number | null): number {
+  if (loudness === null) return 0;
+
+  const gainDb = Math.min(MAX_BOOST_DB, Math.max(MAX_CUT_DB, TARGET_LOUDNESS_LUFS - loudness));
+  return Math.round(gainDb * 10) / 10;
+}
+
+/**
+ * Derives an ID for a new file from its name, dropping the folder prefix
+ * and a "-01" take number (later takes keep theirs as "-2", "-3", ...).
+ */
+function deriveSoundId(relativePath: string): string {
+  const [folder] = relativePath.split("/");
+  let name = parse(relativePath).name;
+
+  if (name.startsWith(`${folder}-`)) {
+    name = name.slice(folder.length + 1);
+  }
+
+  return name.replace(/-(\d+)$/, (_, take: string) =>
+    Number(take) <= 1 ? "" : `-${Number(take)}`
+  );
+}
+
+/**
+ * Groups numbered takes of one recording (rain-light-01.ogg, rain-light-02.ogg)
+ * under the take with the lowest number, which lists them all as variants.
+ */
+function addVariantGroups(manifest: Record<string, SoundAssetEntry>) {
+  const groups = new Map<string, { id: string; take: number }[]>();
+
+  for (const [id, entry] of Object.entries(manifest)) {
+    const match = entry.path.match(/^(.*)-(\d+)\.\w+$/);
+    if (!match) continue;
+
+    const [, base, take] = match;
+    const members = groups.get(base) ?? [];
+    members.push({ id, take: Number(take) });
+    groups.set(base, members);
+  }
+
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+
+    members.sort((a, b) => a.take - b.take);
+    manifest[members[0].id].variants = members.map(({ id }) => id);
+  }
+}
+
+function deriveTags(relativePath: string): string[] {
+  const [folder] = relativePath.split("/");
+  const words = parse(relativePath)
+    .name.split("-")
+    .filter((word) => !/^\d+$/.test(word));
+
+  return [...new Set([folder, ...words])];
+}
+
+/**
+ * Finds the source files that still mention any of the given sound IDs
+ * as a quoted string ('rain_light' or "rain_light").
+ *
+ * @returns Relative paths of the files using each ID (unused IDs are left out)
+ */
+async function findSoundIdUsages(ids: string[]): Promise<Map<string, string[]>> {
+  const usages = new Map<string, string[]>();
+  if (ids.length === 0) return usages;
+
+  for (const folder of SOURCE_FOLDERS) {
+    for await (const filePath of walk(join(projectRoot, folder))) {
+      if (filePath === outputPath) continue;
+      if (!SOURCE_EXTENSIONS.has(parse(filePath).ext)) continue;
+
+      const source = await fs.readFile(filePath, "utf8");
+      for (const id of ids) {
+        if (!source.includes(`'${id}'`) && !source.includes(`"${id}"`)) continue;
+
+        const files = usages.get(id) ?? [];
+        files.push(relative(projectRoot, filePath).split(sep).join("/"));
+        usages.set(id, files);
+      }
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Scans public/audio and writes lib/data/soundManifest.json.
+ *
+ * @param options.remeasure - Measure the loudness of unchanged files again
+ * @param options.skipLoudness - Write the manifest even when files can't be measured
+ */
+export async function generateSoundManifest({ remeasure = false, skipLoudness = false } = {}) {
+  const previous = await readPreviousManifest();
+  const previousIds = new Map(
+    Object.entries(previous).map(([id, entry]) => [entry.path, id])
+  );
+  const canMeasureLoudness = await ffmpegExists();
+
+  if (!canMeasureLoudness) {
+    if (!skipLoudness) {
+      throw new Error(
+        "ffmpeg is required to measure loudness but was not found on PATH (pass --skip-loudness to write the manifest without it)"
+      );
+    }
+    console.warn("ffmpeg not found; loudness is only kept for unchanged files.");
+  }
+
+  const manifest: Record<string, SoundAssetEntry> = {};
+  const unmeasured: string[] = [];
+
+  for await (const filePath of walk(audioRoot)) {
+    const extension = parse(filePath).ext.toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.has(extension)) continue;
+
+    const path = relative(audioRoot, filePath).split(sep).join("/");
+    const id = previousIds.get(path) ?? deriveSoundId(path);
+
+    if (manifest[id]) {
+      throw new Error(`Sound ID "${id}" is used by ${manifest[id].path} and ${path}`);
+    }
+
+    const data = await fs.readFile(filePath);
+    const header = readAudioHeader(data, extension);
+    if (!header) {
+      console.warn(`Could not read audio headers of ${path}`);
+    }
+
+    const previousEntry = previous[id];
+    const unchanged = previousEntry?.path === path && previousEntry.bytes === data.length;
+
+    const { duration, channels, sampleRate } = header ?? EMPTY_HEADER;
+
+    let loudness = unchanged ? previousEntry.loudness : null;
+    if (canMeasureLoudness && (remeasure || loudness === null)) {
+      loudness = await measureLoudness(filePath);
+    }
+    if (loudness === null) {
+      unmeasured.push(path);
+    }
+
+    // Loop points are detected by detectLoopPoints.ts and only carried over
+    // while the file is unchanged
+    const loopPoints =
+      unchanged && previousEntry.loopEnd !== undefined
+        ? { loopStart: previousEntry.loopStart, loopEnd: previousEntry.loopEnd }
+        : {};
+
+    manifest[id] = {
+      path,
+      duration,
+      channels,
+      sampleRate,
+      loudness,
+      gainDb: getNormalizationGainDb(loudness),
+      ...loopPoints,
+      bytes: data.length,
+      tags: deriveTags(path),
+    };
+  }
+
+  if (unmeasured.length > 0) {
+    const message = `No loudness measurement for:\n  ${unmeasured.join("\n  ")}`;
+    if (!skipLoudness) {
+      throw new Error(`${message}\n(pass --skip-loudness to write the manifest without it)`);
+    }
+    console.warn(message);
+  }
+
+  addVariantGroups(manifest);
+
+  const removedIds = Object.keys(previous).filter((id) => !manifest[id]);
+  const usages = await findSoundIdUsages(removedIds);
+
+  if (usages.size > 0) {
+    const lines = [...usages].map(
+      ([id, files]) => `  "${id}" (${previous[id].path}) is used by ${files.join(", ")}`
+    );
+    throw new Error(
+      `Sounds still in use have no file in public/audio:\n${lines.join("\n")}`
+    );
+  }
+
+  for (const id of removedIds) {
+    console.warn(`Removed "${id}" (${previous[id].path} no longer exists)`);
+  }
+
+  const sorted = Object.fromEntries(
+    Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  await fs.mkdir(join(projectRoot, "lib", "data"), { recursive: true });
+  await fs.writeFile(outputPath, `${JSON.stringify(sorted, null, 2)}\n`, "utf8");
+
+  const relativePath = relative(projectRoot, outputPath);
+  console.log(`${Object.keys(sorted).length} sounds written to ${relativePath}`);
+}
+
+// Run when executed directly (convertAudioToOgg.ts imports it instead)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  generateSoundManifest({
+    remeasure: process.argv.includes("--remeasure"),
+    skipLoudness: process.argv.includes("--skip-loudness"),
+  }).catch((error) => {
+    console.error("Failed to generate sound manifest:", error);
+    process.exit(1);
+  });
+}
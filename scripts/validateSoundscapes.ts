@@ -0,0 +1,110 @@
+import type { BiomeType } from "../lib/biomeDetector";
+import type { TimeOfDay } from "../lib/biomeUtils";
+import { getSoundLayers } from "../lib/soundMapping";
+import { validateSoundscapeRules } from "../lib/soundscapeRules";
+import type { SoundId } from "../types/audio";
+
+/**
+ * Conditions a rule file must answer in a known way.
+ */
+interface SoundscapeCase {
+  name: string;
+  biome: BiomeType;
+  timeOfDay: TimeOfDay;
+  weatherCode: number;
+  windSpeedKph: number;
+  humidity: number;
+  temperatureC: number;
+  /** Sounds that must play */
+  plays?: SoundId[];
+  /** Sounds that must stay silent */
+  silent?: SoundId[];
+}
+
+const CASES: SoundscapeCase[] = [
+  {
+    name: "humid lake night brings the shore chorus",
+    biome: "lake",
+    timeOfDay: "night",
+    weatherCode: 0,
+    windSpeedKph: 5,
+    humidity: 92,
+    temperatureC: 16,
+    plays: ["desert-cricket_heavy_close"],
+  },
+  {
+    name: "dry lake night has no shore chorus",
+    biome: "lake",
+    timeOfDay: "night",
+    weatherCode: 0,
+    windSpeedKph: 5,
+    humidity: 55,
+    temperatureC: 16,
+    silent: ["desert-cricket_heavy_close"],
+  },
+  {
+    name: "humid but cold lake night stays quiet",
+    biome: "lake",
+    timeOfDay: "night",
+    weatherCode: 0,
+    windSpeedKph: 5,
+    humidity: 92,
+    temperatureC: 4,
+    silent: ["desert-cricket_heavy_close", "cicada_heavy"],
+  },
+  {
+    name: "frozen lake silences the small waves",
+    biome: "lake",
+    timeOfDay: "day",
+    weatherCode: 0,
+    windSpeedKph: 5,
+    humidity: 60,
+    temperatureC: -10,
+    silent: ["waves_small_close", "waves_light_close"],
+  },
+];
+
+/**
+ * Runs the soundscape cases.
+ *
+ * @returns Error messages (empty when every case holds)
+ */
+function checkCases(): string[] {
+  return CASES.flatMap((testCase) => {
+    const soundIds = new Set<string>(
+      getSoundLayers(
+        testCase.biome,
+        testCase.timeOfDay,
+        testCase.weatherCode,
+        testCase.windSpeedKph,
+        testCase.humidity,
+        { temperatureC: testCase.temperatureC },
+      ).map((layer) => layer.soundId),
+    );
+
+    return [
+      ...(testCase.plays ?? [])
+        .filter((soundId) => !soundIds.has(soundId))
+        .map((soundId) => `${testCase.name}: expected ${soundId} to play`),
+      ...(testCase.silent ?? [])
+        .filter((soundId) => soundIds.has(soundId))
+        .map((soundId) => `${testCase.name}: expected ${soundId} to be silent`),
+    ];
+  });
+}
+
+function validateSoundscapes() {
+  const errors = validateSoundscapeRules();
+  if (errors.length === 0) errors.push(...checkCases());
+
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(error);
+    }
+    process.exit(1);
+  }
+
+  console.log("Soundscape rule files are valid");
+}
+
+validateSoundscapes();
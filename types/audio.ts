@@ -5,6 +5,53 @@
  * audio engine, sound layering system, and biome-to-sound mappings.
  */
 
+import type soundManifest from '@/lib/data/soundManifest.json';
+
+/**
+ * Identifier of a sound in the asset manifest (lib/data/soundManifest.json).
+ * Regenerate the manifest with `npm run generate-sound-manifest` after
+ * adding files under public/audio.
+ */
+export type SoundId = keyof typeof soundManifest;
+
+/**
+ * Manifest entry describing one audio file.
+ */
+export interface SoundAsset {
+  /** File path relative to public/audio, with extension */
+  path: string;
+
+  /** Duration in seconds (null if the headers could not be read) */
+  duration: number | null;
+
+  /** Channel count (null if the headers could not be read) */
+  channels: number | null;
+
+  /** Sample rate in Hz (null if the headers could not be read) */
+  sampleRate: number | null;
+
+  /** Integrated loudness in LUFS (EBU R128), null if not measured */
+  loudness: number | null;
+
+  /** Normalization gain in dB bringing the file to the target loudness (0 if unmeasured) */
+  gainDb: number;
+
+  /** Seamless loop start in seconds (set by scripts/detectLoopPoints.ts) */
+  loopStart?: number;
+
+  /** Seamless loop end in seconds (absent when the sound crossfades instead) */
+  loopEnd?: number;
+
+  /** File size in bytes */
+  bytes: number;
+
+  /** Descriptive tags from the folder and file name (e.g., "water", "waves", "close") */
+  tags: string[];
+
+  /** Sound IDs of every take in this recording's variant group (first take only) */
+  variants?: string[];
+}
+
 /**
  * Sound category classification for layering system.
  *
@@ -14,10 +61,42 @@
  */
 export type SoundCategory = 'base' | 'weather' | 'accent';
 
+/**
+ * Mix state of a category submix bus.
+ */
+export interface CategoryMixState {
+  /** Bus volume level (0.0 to 1.0) */
+  volume: number;
+
+  /** Whether the category is muted */
+  muted: boolean;
+
+  /** Whether the category is soloed (silences every other category) */
+  soloed: boolean;
+}
+
+/**
+ * Spatial placement of a sound in the stereo/binaural field.
+ *
+ * A layer with only `pan` goes through a StereoPannerNode. Setting `azimuth`
+ * or `distance` places it with an HRTF PannerNode instead. Layers without
+ * any of these stay centered.
+ */
+export interface SpatialPosition {
+  /** Stereo pan (-1.0 = hard left, 0 = center, 1.0 = hard right) */
+  pan?: number;
+
+  /** Horizontal angle in degrees (0 = front, 90 = right, -90 = left, 180 = behind) */
+  azimuth?: number;
+
+  /** Distance from the listener (1 = reference distance, no attenuation; inverse rolloff beyond) */
+  distance?: number;
+}
+
 /**
  * Playback options for starting a sound track.
  */
-export interface PlayOptions {
+export interface PlayOptions extends SpatialPosition {
   /** Audio volume (0.0 to 1.0) */
   volume: number;
 
@@ -30,10 +109,53 @@ export interface PlayOptions {
   /** Optional delay before starting playback in seconds */
   startDelay?: number;
 
-  /** Sound category for organizational purposes */
+  /** Sound category; selects the submix bus the track is routed through */
   category?: SoundCategory;
 }
 
+/**
+ * A single scheduled iteration of a track's audio buffer.
+ * Looping tracks hold several voices that overlap during crossfades.
+ */
+export interface LoopVoice {
+  /** Web Audio API buffer source node for this iteration */
+  source: AudioBufferSourceNode;
+
+  /** Envelope gain used for the loop crossfade */
+  envelope: GainNode;
+
+  /** AudioContext time when this iteration starts */
+  startTime: number;
+
+  /** AudioContext time when this iteration ends (Infinity for native loops) */
+  endTime: number;
+}
+
+/**
+ * A long bed streamed through a media element instead of a decoded buffer.
+ */
+export interface StreamVoice {
+  /** Media element fetching and decoding the file progressively */
+  element: HTMLAudioElement;
+
+  /** Node feeding the element into the Web Audio graph */
+  source: MediaElementAudioSourceNode;
+
+  /** Envelope gain (normalization gain, silent until the start time) */
+  envelope: GainNode;
+}
+
+/**
+ * Seamless loop region of a sound file.
+ */
+export interface LoopPoints {
+  /** Loop start in seconds */
+  start: number;
+
+  /** Loop end in seconds */
+  end: number;
+}
+
 /**
  * Information about an active audio track in the system.
  * Internal to AudioManager for tracking playback state.
@@ -42,12 +164,27 @@ export interface AudioTrack {
   /** Unique identifier for this sound */
   soundId: string;
 
-  /** Web Audio API buffer source node */
-  source: AudioBufferSourceNode;
+  /** Sound IDs the track rotates through between loop iterations */
+  variantIds: string[];
+
+  /** Sound ID of the recording used by the latest iteration */
+  variantId: string;
+
+  /** Decoded audio buffer of the latest iteration (null when streamed) */
+  buffer: AudioBuffer | null;
+
+  /** Media element stream for long beds (null when playing from buffers) */
+  stream: StreamVoice | null;
 
-  /** Individual gain node for this track */
+  /** Individual gain node for this track (layer volume and play/stop fades) */
   gainNode: GainNode;
 
+  /** Optional panner placing the track in the stereo/binaural field */
+  panner: StereoPannerNode | PannerNode | null;
+
+  /** Iterations currently scheduled on the AudioContext clock */
+  voices: LoopVoice[];
+
   /** Current volume level (0.0 to 1.0) */
   volume: number;
 
@@ -60,20 +197,29 @@ export interface AudioTrack {
   /** Timestamp when the track started playing */
   startTime: number;
 
-  /** Duration of the audio buffer in seconds */
+  /** Duration of the latest iteration's buffer in seconds (Infinity when streamed) */
   duration: number;
 
-  /** Whether this track is currently fading out */
-  isFadingOut: boolean;
+  /** Loudness normalization gain (linear) of the latest iteration's recording */
+  normalizationGain: number;
+
+  /** Native loop points in seconds; set when the file loops seamlessly without crossfades */
+  loopPoints: LoopPoints | null;
+
+  /** Crossfade length between loop iterations in seconds (0 for native loops) */
+  crossfadeDuration: number;
+
+  /** AudioContext time at which the next loop iteration starts */
+  nextIterationTime: number;
 }
 
 /**
  * Configuration for a sound layer in the soundscape.
  * Returned by sound mapping functions to describe which sounds to play.
  */
-export interface SoundLayer {
-  /** Unique sound identifier (maps to audio filename without extension) */
-  soundId: string;
+export interface SoundLayer extends SpatialPosition {
+  /** Sound identifier from the asset manifest */
+  soundId: SoundId;
 
   /** Target volume (0.0 to 1.0) */
   volume: number;
@@ -91,6 +237,111 @@ export interface SoundLayer {
   startDelay?: number;
 }
 
+/**
+ * A procedural one-shot accent (thunder clap, church bell, passing car).
+ *
+ * Instead of looping, the accent fires at random intervals (a Poisson
+ * process at `ratePerMinute`) with a random gain and stereo position
+ * for every shot. Long recordings are played as short random excerpts.
+ */
+export interface AccentSpec {
+  /** Sound identifier from the asset manifest */
+  soundId: SoundId;
+
+  /** Sound category; selects the submix bus the shots are routed through */
+  category: SoundCategory;
+
+  /** Average number of shots per minute */
+  ratePerMinute: number;
+
+  /** Shortest gap between two shots in seconds */
+  minInterval?: number;
+
+  /** Gain range for each shot [min, max] (0.0 to 1.0) */
+  volume: [number, number];
+
+  /** Stereo pan range for each shot [min, max] (-1.0 to 1.0, default centered) */
+  pan?: [number, number];
+
+  /** Excerpt length in seconds (omit to play the whole file) */
+  duration?: number;
+
+  /** Fade in/out length at each end of a shot in seconds */
+  fadeDuration?: number;
+}
+
+/**
+ * A single accent shot scheduled on the AudioContext clock.
+ * Internal to AudioManager for cancelling and fading shots.
+ */
+export interface AccentShot {
+  /** Web Audio API buffer source node for this shot */
+  source: AudioBufferSourceNode;
+
+  /** Envelope gain shaping the shot */
+  envelope: GainNode;
+
+  /** Panner placing the shot */
+  panner: StereoPannerNode;
+
+  /** AudioContext time when the shot starts */
+  startTime: number;
+}
+
+/**
+ * Scheduling state of an accent.
+ * Internal to AudioManager.
+ */
+export interface ScheduledAccent {
+  /** Accent definition */
+  spec: AccentSpec;
+
+  /** AudioContext time of the next shot */
+  nextShotTime: number;
+
+  /** Shots that are queued or still ringing */
+  shots: AccentShot[];
+}
+
+/**
+ * User override for a single layer, set from the mixer panel.
+ */
+export interface LayerOverride {
+  /** Volume chosen by the user (0.0 to 1.0), replacing the mapped volume */
+  volume?: number;
+
+  /** Whether the user muted the layer */
+  muted?: boolean;
+}
+
+/**
+ * Layer overrides keyed by sound ID.
+ */
+export type LayerOverrides = Record<string, LayerOverride>;
+
+/**
+ * A soundscape layer as presented in the mixer panel.
+ */
+export interface MixerLayer {
+  /** Unique sound identifier */
+  soundId: string;
+
+  /** Sound category of the layer */
+  category: SoundCategory;
+
+  /** Volume chosen by the sound mapping (loudest shot for accents) */
+  defaultVolume: number;
+
+  /** Volume after user overrides (ignoring mute) */
+  volume: number;
+
+  /** Whether the user muted the layer */
+  muted: boolean;
+
+  /** Whether any user override applies to this layer */
+  overridden: boolean;
+}
+
 /**
  * Weather intensity classification based on WMO weather codes.
  * Used to determine volume and layer selection for weather sounds.
@@ -105,6 +356,9 @@ export interface WeatherIntensity {
   /** Whether snow is occurring */
   snow: boolean;
 
+  /** Snowfall intensity (0.0 = none, 1.0 = heavy snow / blizzard) */
+  snowfall: number;
+
   /** Whether fog/mist is present */
   fog: boolean;
 
@@ -112,6 +366,84 @@ export interface WeatherIntensity {
   hasPrecipitation: boolean;
 }
 
+/**
+ * Progress of a preload batch.
+ */
+export interface PreloadProgress {
+  /** Files finished so far (loaded or failed) */
+  loaded: number;
+
+  /** Files in the batch */
+  total: number;
+}
+
+/**
+ * Sleep timer options.
+ */
+export interface SleepTimerOptions {
+  /** Minutes until the soundscape stops (the fade-out spans all of them) */
+  durationMinutes: number;
+
+  /** Optional wall-clock time (ms since epoch) to fade back in */
+  wakeAt?: number | null;
+}
+
+/**
+ * State of a running sleep timer.
+ */
+export interface SleepTimerState {
+  /** When the fade-out ends and the soundscape stops (ms since epoch) */
+  endsAt: number;
+
+  /** When the soundscape fades back in (ms since epoch), if set */
+  wakeAt: number | null;
+
+  /** Whether the soundscape has stopped and is waiting for the wake time */
+  asleep: boolean;
+}
+
+/**
+ * Phase of a focus session.
+ */
+export type FocusPhase = 'work' | 'break';
+
+/**
+ * What a focus break sounds like: a calmer biome, or the current soundscape
+ * without accents.
+ */
+export type FocusBreakStyle = 'biome' | 'quiet';
+
+/**
+ * Focus session (work/break cycle) settings.
+ */
+export interface FocusSessionOptions {
+  /** Length of each work interval in minutes */
+  workMinutes: number;
+
+  /** Length of each break in minutes */
+  breakMinutes: number;
+
+  /** Number of work intervals in the session */
+  cycles: number;
+
+  /** Soundscape used during breaks */
+  breakStyle: FocusBreakStyle;
+}
+
+/**
+ * State of a running focus session.
+ */
+export interface FocusSessionState extends FocusSessionOptions {
+  /** Current phase */
+  phase: FocusPhase;
+
+  /** Current work interval (1-based; a break belongs to the interval before it) */
+  cycle: number;
+
+  /** When the current phase ends (ms since epoch) */
+  phaseEndsAt: number;
+}
+
 /**
  * Audio system initialization state.
  */
@@ -139,4 +471,7 @@ export interface AudioSystemState {
 
   /** Low-pass filter frequency for inside mode in Hz */
   insideFilterFrequency?: number;
+
+  /** Level, mute and solo state of each category submix bus */
+  categories: Record<SoundCategory, CategoryMixState>;
 }
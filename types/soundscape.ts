@@ -0,0 +1,139 @@
+/**
+ * Soundscape rule file schema.
+ *
+ * Each biome's soundscape is described by a JSON rule file in
+ * lib/data/soundscapes/. These types describe the file format; the rule
+ * engine in lib/soundscapeRules.ts validates and evaluates it.
+ *
+ * Any field typed `RuleNumber` or `RuleCondition` accepts either a literal
+ * or an expression string (see lib/ruleExpression.ts), for example
+ * `"min(0.75, 0.45 + rain * 0.6)"` or `"isDay && birds"`.
+ */
+
+import type { SoundCategory } from './audio';
+
+/**
+ * A number, or an expression evaluating to one.
+ */
+export type RuleNumber = number | string;
+
+/**
+ * A boolean, or an expression evaluating to one.
+ */
+export type RuleCondition = boolean | string;
+
+/**
+ * A looping layer in a biome soundscape.
+ */
+export interface LayerRule {
+  /** Sound identifier (must exist in the sound registry) */
+  soundId: string;
+
+  /** Sound category for layering logic */
+  category: SoundCategory;
+
+  /** Target volume (0.0 to 1.0) */
+  volume: RuleNumber;
+
+  /** Condition for including the layer (default always) */
+  when?: RuleCondition;
+
+  /** Optional fade-in duration in seconds */
+  fadeInDuration?: number;
+
+  /** Optional delay before starting in seconds */
+  startDelay?: number;
+
+  /** Optional fixed stereo pan (-1.0 to 1.0) */
+  pan?: number;
+
+  /** Optional note for sound designers (ignored by the engine) */
+  comment?: string;
+}
+
+/**
+ * A procedural one-shot accent in a biome soundscape (see AccentSpec).
+ */
+export interface AccentRule {
+  /** Sound identifier (must exist in the sound registry) */
+  soundId: string;
+
+  /** Sound category; selects the submix bus */
+  category: SoundCategory;
+
+  /** Average number of shots per minute */
+  ratePerMinute: RuleNumber;
+
+  /** Condition for including the accent (default always) */
+  when?: RuleCondition;
+
+  /** Shortest gap between two shots in seconds */
+  minInterval?: number;
+
+  /** Gain range for each shot [min, max] */
+  volume: [RuleNumber, RuleNumber];
+
+  /** Stereo pan range for each shot [min, max] */
+  pan?: [RuleNumber, RuleNumber];
+
+  /** Excerpt length in seconds */
+  duration?: number;
+
+  /** Fade in/out length at each end of a shot in seconds */
+  fadeDuration?: number;
+
+  /** Optional note for sound designers (ignored by the engine) */
+  comment?: string;
+}
+
+/**
+ * Temperature limits for layers whose sound ID matches a pattern.
+ * Skipped when the temperature is unknown.
+ */
+export interface ClimateRuleDefinition {
+  /** Regular expression matched against sound IDs */
+  match: string;
+
+  /** Drop matching layers when colder than this (°C) */
+  minTemperatureC?: number;
+
+  /** Drop matching layers when warmer than this (°C) */
+  maxTemperatureC?: number;
+}
+
+/**
+ * The dawn chorus layer of a biome.
+ */
+export interface DawnChorusRule {
+  /** Sound identifier of the chorus */
+  soundId: string;
+
+  /** Chorus volume in dry weather (halved in precipitation) */
+  volume: number;
+}
+
+/**
+ * A biome soundscape rule file.
+ */
+export interface SoundscapeRuleFile {
+  /** Optional note for sound designers (ignored by the engine) */
+  comment?: string;
+
+  /**
+   * Optional layers rolled once per soundscape, as name → probability
+   * (0.0 to 1.0). Each name becomes a boolean variable for layer rules.
+   */
+  rolls?: Record<string, RuleNumber>;
+
+  /** Looping layers */
+  layers: LayerRule[];
+
+  /** One-shot accents */
+  accents?: AccentRule[];
+
+  /** Temperature limits for insects, frogs, frozen water, etc. */
+  climate?: ClimateRuleDefinition[];
+
+  /** Layer added at dawn */
+  dawnChorus?: DawnChorusRule;
+}
@@ -13,12 +13,30 @@ export interface GeocodingResult {
   admin2?: string;
   country_code: string;
   feature_code?: string;
+  population?: number;
 }
 
 export interface GeocodingResponse {
   results?: GeocodingResult[];
 }
 
+// Ranked place returned by /api/geocode
+export interface LocationCandidate {
+  id: number;
+  name: string;
+  admin1?: string;
+  country: string;
+  country_code: string;
+  // GeoNames feature code (e.g. "PPLC" capital, "PPLA" admin seat, "PPL" town)
+  feature_code?: string;
+  lat: number;
+  lon: number;
+}
+
+export interface GeocodeResponse {
+  results: LocationCandidate[];
+}
+
 // Open-Meteo Forecast API Response
 export interface OpenMeteoForecast {
   latitude: number;
@@ -26,6 +44,7 @@ export interface OpenMeteoForecast {
   elevation: number;
   timezone: string;
   timezone_abbreviation: string;
+  utc_offset_seconds: number;
   current: {
     time: string;
     temperature_2m: number;
@@ -43,6 +62,65 @@ export interface OpenMeteoForecast {
     wind_speed_10m: string;
     wind_direction_10m: string;
   };
+  hourly?: {
+    time: string[];
+    weather_code: number[];
+  };
+}
+
+// MET Norway Locationforecast 2.0 (compact) Response
+export interface MetNorwayForecast {
+  properties: {
+    timeseries: {
+      // UTC (ISO 8601)
+      time: string;
+      data: {
+        instant: {
+          details: {
+            air_temperature: number;
+            relative_humidity: number;
+            // m/s
+            wind_speed: number;
+            wind_from_direction: number;
+          };
+        };
+        next_1_hours?: {
+          // e.g. "lightrainshowers_day"
+          summary: { symbol_code: string };
+        };
+        next_6_hours?: {
+          summary: { symbol_code: string };
+        };
+      };
+    }[];
+  };
+}
+
+// Current conditions from a weather provider, in metric units, before the
+// route turns them into WeatherData
+export interface ProviderForecast {
+  // Local time of the place ("YYYY-MM-DDTHH:mm")
+  localtime: string;
+  utc_offset_seconds?: number;
+  temp_c: number;
+  feelslike_c: number;
+  humidity: number;
+  wind_kph: number;
+  wind_dir: number;
+  // WMO weather code
+  weather_code: number;
+  // Next few hours (local times)
+  hourly?: {
+    time: string;
+    weather_code: number;
+  }[];
+}
+
+// Source of forecasts and place search, selected with WEATHER_PROVIDER
+export interface WeatherProvider {
+  name: string;
+  getForecast(lat: number, lon: number): Promise<ProviderForecast>;
+  searchPlaces(query: string, count: number): Promise<LocationCandidate[]>;
 }
 
 // Unified Weather Data for the app
@@ -52,6 +130,7 @@ export interface WeatherData {
     region: string;
     country: string;
     localtime: string;
+    utc_offset_seconds?: number;
   };
   current: {
     temp_f: number;
@@ -74,6 +153,16 @@ export interface WeatherData {
       lon: number;
     };
   };
+  // When the data came from the offline cache: the time it was fetched (ISO 8601)
+  cached_at?: string;
+  // Hourly conditions for the next few hours (local times), when available
+  forecast?: {
+    time: string;
+    condition: {
+      text: string;
+      code: number;
+    };
+  }[];
 }
 
 export interface WeatherError {